@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePrivy } from '@privy-io/react-auth';
+import { toast } from 'sonner';
+import { ArrowLeft, Lock, Network, ShieldCheck, Users } from 'lucide-react';
+import { authFetch } from '@/lib/authFetch';
+import { CHAINS } from '@/lib/chains';
+import { DEFAULT_SETTINGS, type AppSettings } from '@/lib/addressBook';
+import { ROLES, ROLE_DESCRIPTIONS, type Role, type UserRecord } from '@/lib/roles';
+import styles from './page.module.css';
+
+// Admin console: roles, networks and the address book allow-list. Every change is re-checked by the API.
+export default function AdminPage() {
+  const { login, authenticated, ready, user } = usePrivy();
+  const [status, setStatus] = useState<'loading' | 'forbidden' | 'ready'>('loading');
+  const [users, setUsers] = useState<UserRecord[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadAdminData = useCallback(async () => {
+    try {
+      const [usersResp, settingsResp] = await Promise.all([authFetch('/api/users'), authFetch('/api/settings')]);
+      if (usersResp.status === 401 || usersResp.status === 403) {
+        setStatus('forbidden');
+        return;
+      }
+      const [usersData, settingsData] = await Promise.all([usersResp.json(), settingsResp.json()]);
+      if (usersData.users) setUsers(usersData.users);
+      if (settingsData.settings) setSettings(settingsData.settings);
+      setStatus('ready');
+    } catch (e) {
+      console.error('[Admin] Failed to load', e);
+      toast.error('Failed to load admin data');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (ready && authenticated) loadAdminData();
+  }, [ready, authenticated, loadAdminData]);
+
+  const changeRole = async (target: UserRecord, role: Role) => {
+    setSavingId(target.id);
+    try {
+      const resp = await authFetch(`/api/users/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      });
+      const result = await resp.json();
+      if (!resp.ok) throw new Error(result.error || 'Role change rejected');
+      setUsers(prev => prev.map(u => u.id === target.id ? result.user : u));
+      toast.success(`${target.email || target.name || target.walletAddress} is now ${role.toLowerCase()}`);
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : 'Role change failed');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveSettings = async (changes: Partial<AppSettings>) => {
+    try {
+      const resp = await authFetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const result = await resp.json();
+      if (!resp.ok) throw new Error(result.error || 'Settings rejected');
+      setSettings(result.settings);
+      toast.success('Settings saved');
+    } catch (e) {
+      console.error(e);
+      toast.error(e instanceof Error ? e.message : 'Failed to save settings');
+    }
+  };
+
+  const toggleChain = (chainId: number) => {
+    const disabled = settings.disabledChains.includes(chainId);
+    saveSettings({ disabledChains: disabled ? settings.disabledChains.filter(id => id !== chainId) : [...settings.disabledChains, chainId] });
+  };
+
+  const me = user?.wallet?.address?.toLowerCase();
+
+  return (
+    <main className={styles.main}>
+      <Link href="/" className={styles.backLink}><ArrowLeft size={14} /> Back to dashboard</Link>
+      <h1 className={styles.title}>Control Room</h1>
+
+      {!ready ? null : !authenticated ? (
+        <div className={styles.notice}>
+          <p>Sign in to manage the team.</p>
+          <button onClick={login} className={styles.primaryBtn}>Activate Machine</button>
+        </div>
+      ) : status === 'loading' ? (
+        <div className={styles.notice}>Loading...</div>
+      ) : status === 'forbidden' ? (
+        <div className={styles.notice}><Lock size={16} /> Only admins can open this page.</div>
+      ) : (
+        <>
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}><Users size={16} color="#a855f7" /> Team Roles</div>
+            <table className={styles.table}>
+              <thead>
+                <tr><th>User</th><th>Wallet</th><th>Role</th></tr>
+              </thead>
+              <tbody>
+                {users.map(u => (
+                  <tr key={u.id}>
+                    <td>{u.email || u.name || '—'}{u.walletAddress === me && <span className={styles.muted}> (you)</span>}</td>
+                    <td className={styles.mono}>{u.walletAddress.slice(0, 6)}...{u.walletAddress.slice(-4)}</td>
+                    <td>
+                      <select value={u.role} disabled={savingId === u.id} onChange={e => changeRole(u, e.target.value as Role)} className={styles.select}>
+                        {ROLES.map(r => <option key={r} value={r}>{r.toLowerCase()}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <ul className={styles.legend}>
+              {ROLES.map(r => <li key={r}><strong>{r.toLowerCase()}</strong>: {ROLE_DESCRIPTIONS[r]}</li>)}
+            </ul>
+          </section>
+
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}><Network size={16} color="#a855f7" /> Networks</div>
+            {CHAINS.map(chain => (
+              <label key={chain.id} className={styles.toggleRow}>
+                <input type="checkbox" checked={!settings.disabledChains.includes(chain.id)} onChange={() => toggleChain(chain.id)} />
+                <span>{chain.name}</span>
+                <span className={styles.muted}>{chain.id}</span>
+              </label>
+            ))}
+          </section>
+
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}><ShieldCheck size={16} color="#a855f7" /> Allow-list</div>
+            <label className={styles.toggleRow}>
+              <input type="checkbox" checked={settings.enforceAddressBook} onChange={() => saveSettings({ enforceAddressBook: !settings.enforceAddressBook })} />
+              <span>Only allow transfers to addresses in the address book</span>
+            </label>
+            <p className={styles.muted}>Tracked vaults are added, labelled and removed from the dashboard.</p>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { canEditAddressBook } from '@/lib/settings';
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { label } = await request.json();
+
+    if (typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+    if (!(await canEditAddressBook(caller.role))) {
+      return NextResponse.json({ error: 'Address book is locked to admins' }, { status: 403 });
+    }
+
+    const existing = await prisma.addressBookEntry.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const entry = await prisma.addressBookEntry.update({
+      where: { id },
+      data: { label: label.trim() },
+      include: { addedBy: { select: { walletAddress: true, email: true, name: true } } }
+    });
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Address book update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+
+    if (!(await canEditAddressBook(caller.role))) {
+      return NextResponse.json({ error: 'Address book is locked to admins' }, { status: 403 });
+    }
+
+    const existing = await prisma.addressBookEntry.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    await prisma.addressBookEntry.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Address book delete error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
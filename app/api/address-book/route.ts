@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { canEditAddressBook } from '@/lib/settings';
+
+const ADDED_BY_SELECT = { select: { walletAddress: true, email: true, name: true } };
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(request.url);
+    const chainId = Number(searchParams.get('chainId'));
+
+    if (!Number.isInteger(chainId)) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const entries = await prisma.addressBookEntry.findMany({
+      where: { chainId },
+      include: { addedBy: ADDED_BY_SELECT },
+      orderBy: { label: 'asc' }
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Address book list error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { chainId, address, label } = await request.json();
+
+    if (!Number.isInteger(chainId) || typeof address !== 'string' || !isAddress(address) || typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    if (!(await canEditAddressBook(caller.role))) {
+      return NextResponse.json({ error: 'Address book is locked to admins' }, { status: 403 });
+    }
+
+    const existing = await prisma.addressBookEntry.findUnique({ where: { chainId_address: { chainId, address: address.toLowerCase() } } });
+    if (existing) {
+      return NextResponse.json({ error: 'Address already in the address book' }, { status: 409 });
+    }
+
+    const entry = await prisma.addressBookEntry.create({
+      data: { chainId, address: address.toLowerCase(), label: label.trim(), addedById: caller.id },
+      include: { addedBy: ADDED_BY_SELECT }
+    });
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Address book create error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
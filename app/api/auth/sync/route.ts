@@ -1,38 +1,56 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { authenticate, getAuthVerifier } from '@/lib/auth';
+import { isBootstrapAdmin } from '@/lib/settings';
 
 export async function POST(request: Request) {
   try {
-    const { user } = await request.json();
+    const privyId = await authenticate(request);
+    if (!privyId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-    if (!user || !user.wallet) {
-      return NextResponse.json({ error: 'Invalid user data' }, { status: 400 });
+    // Wallet and Google details come from Privy, never from the request body.
+    const { walletAddress, email, name, linkedAccounts } = await getAuthVerifier().getIdentity(privyId);
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'No wallet linked to this account' }, { status: 400 });
     }
 
-    // Extract Google Info
-    const googleAccount = user.linkedAccounts.find((a: any) => a.type === 'google_oauth');
-    const walletAddress = user.wallet.address.toLowerCase();
+    // Roles are assigned on the admin page; ADMIN_WALLETS only seeds the first admins. A listed wallet is made
+    // ADMIN when its user is created, or on an existing install that has no admin yet, never on later logins,
+    // so an admin can still demote it.
+    const isBootstrap = isBootstrapAdmin(walletAddress);
+    const seedExisting = isBootstrap && (await prisma.user.count({ where: { role: 'ADMIN' } })) === 0;
 
     // Upsert User
     const record = await prisma.user.upsert({
       where: { walletAddress },
       update: {
-        privyId: user.id,
-        email: googleAccount?.email || null,
-        name: googleAccount?.name || null,
+        privyId,
+        email,
+        name,
+        ...(seedExisting ? { role: 'ADMIN' as const } : {}),
         updatedAt: new Date(),
       },
       create: {
-        privyId: user.id,
+        privyId,
         walletAddress,
-        email: googleAccount?.email || null,
-        name: googleAccount?.name || null,
+        email,
+        name,
+        ...(isBootstrap ? { role: 'ADMIN' as const } : {}),
       },
     });
 
+    // Mirror Privy's linked accounts. A wallet re-linked to another Privy user moves with it.
+    const linkedAddresses = linkedAccounts.map(a => a.address).filter((a): a is string => !!a);
+    await prisma.$transaction([
+      prisma.linkedWallet.deleteMany({ where: { OR: [{ userId: record.id }, { address: { in: linkedAddresses } }] } }),
+      prisma.linkedWallet.createMany({ data: linkedAccounts.map(account => ({ ...account, userId: record.id })) })
+    ]);
+
     return NextResponse.json({ success: true, user: record });
   } catch (error) {
     console.error('Sync error:', error);
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
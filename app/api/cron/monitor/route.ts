@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { runBalanceMonitor } from '@/lib/monitor';
+
+// Called by a scheduler (Vercel Cron, crontab + curl, ...) with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await runBalanceMonitor();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Monitor error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { loadSettings } from '@/lib/settings';
+import { CHAINS } from '@/lib/chains';
+import { buildProgressSeries, recoveredPercent, type ChainProgress } from '@/lib/progress';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+// Progress is measured in each chain's USDC, the currency the Fondu migration funds were held in.
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(request.url);
+    const chainId = searchParams.get('chainId');
+    const days = Number(searchParams.get('days') ?? DEFAULT_DAYS);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS || (chainId !== null && !Number.isInteger(Number(chainId)))) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const { disabledChains } = await loadSettings();
+    const chains = CHAINS.filter(c => !disabledChains.includes(c.id) && (chainId === null || c.id === Number(chainId)));
+
+    const progress: ChainProgress[] = await Promise.all(chains.map(async chain => {
+      const usdc = chain.usdcAddress.toLowerCase();
+      const token = chain.tokens.find(t => t.address.toLowerCase() === usdc);
+      const tracked = await prisma.trackedSafe.findMany({ where: { chainId: chain.id }, select: { address: true } });
+      const safes = tracked.map(t => t.address);
+
+      const [snapshots, recoveries] = await Promise.all([
+        prisma.balanceSnapshot.findMany({
+          where: { chainId: chain.id, tokenAddress: usdc, safeAddress: { in: safes } },
+          select: { safeAddress: true, amount: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        }),
+        prisma.recovery.findMany({
+          where: { chainId: chain.id, tokenAddress: usdc, status: 'CONFIRMED', confirmedAt: { not: null } },
+          select: { amount: true, confirmedAt: true },
+          orderBy: { confirmedAt: 'asc' }
+        })
+      ]);
+
+      const { series, sparklines } = buildProgressSeries({
+        safes,
+        snapshots,
+        recoveries: recoveries.map(r => ({ amount: r.amount, confirmedAt: r.confirmedAt as Date })),
+        decimals: token?.decimals ?? 6,
+        days
+      });
+      const latest = series[series.length - 1];
+      return {
+        chainId: chain.id,
+        symbol: token?.symbol ?? 'USDC',
+        recoverable: latest.recoverable,
+        recovered: latest.recovered,
+        percent: recoveredPercent(latest.recovered, latest.recoverable),
+        series,
+        ...(chainId !== null ? { sparklines } : {})
+      };
+    }));
+
+    return NextResponse.json({ days, chains: progress });
+  } catch (error) {
+    console.error('Progress load error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
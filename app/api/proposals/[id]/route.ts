@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { isHash, parseAbi } from 'viem';
+import type { Proposal } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { authorize, getUserWallets } from '@/lib/auth';
+import { getChainConfig } from '@/lib/chains';
+import { getReadClient } from '@/lib/readClients';
+import { scanSafes } from '@/lib/safeScanner';
+import type { SafeOperationPayload } from '@/lib/proposals';
+
+const ENTRY_POINT_ABI = parseAbi(['function getNonce(address sender, uint192 key) view returns (uint256)']);
+const SAFE_NONCE_ABI = parseAbi(['function nonce() view returns (uint256)']);
+
+// The execution transaction succeeded, the vault took part in it, and the nonce the proposal signs for is used up.
+const isExecutedOnChain = async (proposal: Proposal, executedHash: unknown) => {
+  if (typeof executedHash !== 'string' || !isHash(executedHash) || !getChainConfig(proposal.chainId)) return false;
+  const client = getReadClient(proposal.chainId);
+  const safeAddress = proposal.safeAddress as `0x${string}`;
+  const receipt = await client.getTransactionReceipt({ hash: executedHash }).catch(() => null);
+  if (receipt?.status !== 'success' || !receipt.logs.some(log => log.address.toLowerCase() === proposal.safeAddress)) return false;
+
+  const nonce = BigInt(proposal.nonce);
+  const current = proposal.kind === 'SAFE_OPERATION'
+    ? await client.readContract({
+      address: (proposal.payload as unknown as SafeOperationPayload).options.entryPoint as `0x${string}`,
+      abi: ENTRY_POINT_ABI,
+      functionName: 'getNonce',
+      args: [safeAddress, nonce >> BigInt(64)]
+    })
+    : await client.readContract({ address: safeAddress, abi: SAFE_NONCE_ABI, functionName: 'nonce' });
+  return current > nonce;
+};
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { status, executedHash } = await request.json();
+
+    if (status !== 'EXECUTED' && status !== 'CANCELLED') {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (status === 'EXECUTED' && !executedHash) {
+      return NextResponse.json({ error: 'Missing execution hash' }, { status: 400 });
+    }
+
+    const proposal = await prisma.proposal.findUnique({ where: { id } });
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+    if (proposal.status !== 'PENDING') {
+      return NextResponse.json({ error: 'Proposal is no longer pending' }, { status: 409 });
+    }
+
+    // Executing also cancels every competing proposal for the nonce, so it is only accepted once it happened on-chain.
+    if (status === 'EXECUTED' && !(await isExecutedOnChain(proposal, executedHash))) {
+      return NextResponse.json({ error: 'Execution is not confirmed on-chain' }, { status: 400 });
+    }
+    if (status === 'CANCELLED') {
+      const [safe] = await scanSafes(getReadClient(proposal.chainId), [proposal.safeAddress]);
+      const allowed = new Set([proposal.proposer, ...(safe?.owners ?? []).map(o => o.toLowerCase())]);
+      if (!(await getUserWallets(caller)).some(wallet => allowed.has(wallet))) {
+        return NextResponse.json({ error: 'Only the proposer or an owner can cancel this proposal' }, { status: 403 });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const record = await tx.proposal.update({
+        where: { id },
+        data: { status, executedHash: executedHash || null }
+      });
+
+      // Executing consumes the Safe nonce, so competing proposals for the same nonce can never run.
+      if (status === 'EXECUTED') {
+        await tx.proposal.updateMany({
+          where: {
+            id: { not: id },
+            chainId: proposal.chainId,
+            safeAddress: proposal.safeAddress,
+            kind: proposal.kind,
+            nonce: proposal.nonce,
+            status: 'PENDING'
+          },
+          data: { status: 'CANCELLED' }
+        });
+      }
+      return record;
+    });
+
+    return NextResponse.json({ success: true, proposal: updated });
+  } catch (error) {
+    console.error('Proposal update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { recoverSafeSignatureSigner } from '@/lib/safeSignatures';
+import { scanSafes } from '@/lib/safeScanner';
+import { getReadClient } from '@/lib/readClients';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { signer, data } = await request.json();
+
+    if (typeof signer !== 'string' || !isAddress(signer) || typeof data !== 'string') {
+      return NextResponse.json({ error: 'Invalid signature data' }, { status: 400 });
+    }
+
+    const proposal = await prisma.proposal.findUnique({ where: { id } });
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+    if (proposal.status !== 'PENDING') {
+      return NextResponse.json({ error: 'Proposal is no longer pending' }, { status: 409 });
+    }
+
+    const normalizedSigner = signer.toLowerCase();
+    const recovered = await recoverSafeSignatureSigner(proposal.safeTxHash, data).catch(() => null);
+    if (!recovered) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+    }
+    if (recovered.toLowerCase() !== normalizedSigner) {
+      return NextResponse.json({ error: 'Signature does not match signer' }, { status: 400 });
+    }
+
+    // Signatures can be imported from outside the app, so ownership is checked on-chain rather than assumed.
+    const [safe] = await scanSafes(getReadClient(proposal.chainId), [proposal.safeAddress]);
+    if (!safe?.owners.some(owner => owner.toLowerCase() === normalizedSigner)) {
+      return NextResponse.json({ error: 'Signer is not an owner of this vault' }, { status: 400 });
+    }
+
+    await prisma.proposalSignature.upsert({
+      where: { proposalId_signer: { proposalId: id, signer: normalizedSigner } },
+      update: { data },
+      create: { proposalId: id, signer: normalizedSigner, data }
+    });
+
+    const updated = await prisma.proposal.findUnique({
+      where: { id },
+      include: { signatures: { select: { signer: true, data: true }, orderBy: { createdAt: 'asc' } } }
+    });
+
+    return NextResponse.json({ success: true, proposal: updated });
+  } catch (error) {
+    console.error('Proposal sign error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
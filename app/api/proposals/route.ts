@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize, getUserWallets } from '@/lib/auth';
+import { recoverSafeSignatureSigner } from '@/lib/safeSignatures';
+import { hashProposalPayload } from '@/lib/proposals';
+import { scanSafes } from '@/lib/safeScanner';
+import { getReadClient } from '@/lib/readClients';
+import { getChainConfig } from '@/lib/chains';
+
+const PROPOSAL_KINDS = ['SAFE_TX', 'SAFE_OPERATION'];
+const PROPOSAL_STATUSES = ['PENDING', 'EXECUTED', 'CANCELLED'];
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(request.url);
+    const chainId = Number(searchParams.get('chainId'));
+    const status = searchParams.get('status') || 'PENDING';
+
+    if (!Number.isInteger(chainId) || !PROPOSAL_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const proposals = await prisma.proposal.findMany({
+      where: { chainId, status: status as 'PENDING' | 'EXECUTED' | 'CANCELLED' },
+      include: { signatures: { select: { signer: true, data: true }, orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({ proposals });
+  } catch (error) {
+    console.error('Proposal list error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { chainId, safeAddress, kind, safeTxHash, nonce, payload, description, signature } = await request.json();
+
+    // A SafeTx may be created unsigned, for owners who sign offline and whose signatures are imported later.
+    const isUnsigned = signature === undefined && kind === 'SAFE_TX';
+    if (!Number.isInteger(chainId) || !isAddress(safeAddress) || !PROPOSAL_KINDS.includes(kind) || !safeTxHash || nonce === undefined || !payload || (!isUnsigned && (!signature?.signer || !signature?.data))) {
+      return NextResponse.json({ error: 'Invalid proposal data' }, { status: 400 });
+    }
+
+    // The proposer's signature must really come from the address it claims.
+    if (!isUnsigned) {
+      const recovered = await recoverSafeSignatureSigner(safeTxHash, signature.data).catch(() => null);
+      if (!recovered) {
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+      }
+      if (recovered.toLowerCase() !== signature.signer.toLowerCase()) {
+        return NextResponse.json({ error: 'Signature does not match signer' }, { status: 400 });
+      }
+    }
+
+    if (!getChainConfig(chainId)) {
+      return NextResponse.json({ error: 'Unsupported chain' }, { status: 400 });
+    }
+
+    // Co-owners review `payload` but sign `safeTxHash`, so the two must describe the same transaction.
+    const [safe] = await scanSafes(getReadClient(chainId), [safeAddress]);
+    if (!safe?.isSafe) {
+      return NextResponse.json({ error: 'Address is not a Safe on this chain' }, { status: 400 });
+    }
+    let matches: boolean;
+    try {
+      const expected = hashProposalPayload({ kind, chainId, safeAddress, safeVersion: safe.version, payload });
+      matches = expected.hash.toLowerCase() === String(safeTxHash).toLowerCase() && BigInt(expected.nonce) === BigInt(nonce);
+    } catch {
+      return NextResponse.json({ error: 'Invalid proposal payload' }, { status: 400 });
+    }
+    if (!matches) {
+      return NextResponse.json({ error: 'Payload does not match the Safe transaction hash' }, { status: 400 });
+    }
+
+    // Only owners may put a transaction in front of the other owners. An unsigned proposal is credited
+    // to whichever of the caller's wallets owns the vault.
+    const owners = safe.owners.map(owner => owner.toLowerCase());
+    const candidates = isUnsigned ? await getUserWallets(caller) : [signature.signer.toLowerCase()];
+    const signer = candidates.find((address): address is string => !!address && owners.includes(address));
+    if (!signer) {
+      return NextResponse.json({ error: 'Proposer is not an owner of this vault' }, { status: 400 });
+    }
+
+    const proposal = await prisma.proposal.create({
+      data: {
+        chainId,
+        safeAddress: safeAddress.toLowerCase(),
+        kind,
+        safeTxHash,
+        nonce: String(nonce),
+        payload,
+        description: description || null,
+        proposer: signer,
+        ...(isUnsigned ? {} : { signatures: { create: { signer, data: signature.data } } })
+      },
+      include: { signatures: { select: { signer: true, data: true } } }
+    });
+
+    return NextResponse.json({ success: true, proposal });
+  } catch (error) {
+    console.error('Proposal create error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
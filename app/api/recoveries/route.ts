@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { formatUnits, isAddress, isHash } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { toCsv } from '@/lib/csv';
+import { getChainConfig } from '@/lib/chains';
+import { getReadClient } from '@/lib/readClients';
+import type { RecoveryTransfer } from '@/lib/recoveries';
+
+const RECOVERY_STATUSES = ['PENDING', 'CONFIRMED', 'FAILED'];
+const MAX_RESULTS = 1000;
+
+const CSV_HEADER = [
+  'createdAt', 'chainId', 'safeAddress', 'tokenSymbol', 'tokenAddress', 'amount', 'amountRaw', 'decimals',
+  'destination', 'status', 'txHash', 'userOpHash', 'safeTxHash', 'executorWallet', 'executorEmail'
+];
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(request.url);
+    const chainId = searchParams.get('chainId');
+    const safe = searchParams.get('safe');
+    const user = searchParams.get('user');
+    const format = searchParams.get('format');
+    if (chainId !== null && !Number.isInteger(Number(chainId))) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    // `user` matches the executor's wallet, email or name so finance can filter by whoever they know.
+    const recoveries = await prisma.recovery.findMany({
+      where: {
+        ...(chainId ? { chainId: Number(chainId) } : {}),
+        ...(safe ? { safeAddress: safe.toLowerCase() } : {}),
+        ...(user ? {
+          executor: {
+            OR: [
+              { walletAddress: user.toLowerCase() },
+              { email: { contains: user, mode: 'insensitive' as const } },
+              { name: { contains: user, mode: 'insensitive' as const } }
+            ]
+          }
+        } : {})
+      },
+      include: { executor: { select: { walletAddress: true, email: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_RESULTS
+    });
+
+    if (format === 'csv') {
+      const csv = toCsv(CSV_HEADER, recoveries.map(r => [
+        r.createdAt.toISOString(), r.chainId, r.safeAddress, r.tokenSymbol, r.tokenAddress, formatUnits(BigInt(r.amount), r.decimals), r.amount, r.decimals,
+        r.destination, r.status, r.txHash, r.userOpHash, r.safeTxHash, r.executor?.walletAddress, r.executor?.email
+      ]));
+      return new NextResponse(csv, {
+        headers: { 'Content-Type': 'text/csv; charset=utf-8', 'Content-Disposition': 'attachment; filename="recoveries.csv"' }
+      });
+    }
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(recoveries, null, 2), {
+        headers: { 'Content-Type': 'application/json', 'Content-Disposition': 'attachment; filename="recoveries.json"' }
+      });
+    }
+
+    return NextResponse.json({ recoveries });
+  } catch (error) {
+    console.error('Recovery list error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Every ledger row is read back with BigInt(amount) by the exports and the balance monitor, so entries are checked strictly.
+const isValidTransfer = (t: unknown): t is RecoveryTransfer => {
+  const transfer = t as Partial<RecoveryTransfer> | null;
+  return !!transfer
+    && typeof transfer.destination === 'string' && isAddress(transfer.destination)
+    && (transfer.tokenAddress === null || (typeof transfer.tokenAddress === 'string' && isAddress(transfer.tokenAddress)))
+    && typeof transfer.amount === 'string' && /^\d+$/.test(transfer.amount)
+    && Number.isInteger(transfer.decimals)
+    && typeof transfer.tokenSymbol === 'string';
+};
+
+// A CONFIRMED entry must point at a successful transaction in which the vault itself emitted an event.
+const isConfirmedOnChain = async (chainId: number, safeAddress: string, txHash: unknown) => {
+  if (typeof txHash !== 'string' || !isHash(txHash) || !getChainConfig(chainId)) return false;
+  const receipt = await getReadClient(chainId).getTransactionReceipt({ hash: txHash }).catch(() => null);
+  return receipt?.status === 'success' && receipt.logs.some(log => log.address.toLowerCase() === safeAddress.toLowerCase());
+};
+
+export async function POST(request: Request) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { chainId, safeAddress, transfers, status, txHash, userOpHash, safeTxHash } = await request.json();
+
+    if (!Number.isInteger(chainId) || !isAddress(safeAddress) || !Array.isArray(transfers) || transfers.length === 0 || !transfers.every(isValidTransfer) || !RECOVERY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid recovery data' }, { status: 400 });
+    }
+    if (status === 'CONFIRMED' && !(await isConfirmedOnChain(chainId, safeAddress, txHash))) {
+      return NextResponse.json({ error: 'Transaction is not confirmed on-chain' }, { status: 400 });
+    }
+
+    // Several tabs can settle the same operation; a batch already on the ledger under one of its hashes is not written twice.
+    const hashes = [
+      ...(txHash ? [{ txHash }] : []),
+      ...(userOpHash ? [{ userOpHash }] : []),
+      ...(safeTxHash ? [{ safeTxHash }] : [])
+    ];
+    if (hashes.length > 0) {
+      const existing = await prisma.recovery.findFirst({ where: { chainId, safeAddress: safeAddress.toLowerCase(), status, OR: hashes }, select: { id: true } });
+      if (existing) return NextResponse.json({ success: true, count: 0 });
+    }
+
+    const result = await prisma.recovery.createMany({
+      data: transfers.map(t => ({
+        chainId,
+        safeAddress: safeAddress.toLowerCase(),
+        tokenAddress: t.tokenAddress?.toLowerCase() ?? null,
+        tokenSymbol: t.tokenSymbol,
+        amount: t.amount,
+        decimals: t.decimals,
+        destination: t.destination.toLowerCase(),
+        txHash: txHash || null,
+        userOpHash: userOpHash || null,
+        safeTxHash: safeTxHash || null,
+        status,
+        confirmedAt: status === 'CONFIRMED' ? new Date() : null,
+        executorId: caller.id
+      }))
+    });
+
+    return NextResponse.json({ success: true, count: result.count });
+  } catch (error) {
+    console.error('Recovery record error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { label, notes } = await request.json();
+
+    const existing = await prisma.trackedSafe.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Safe not found' }, { status: 404 });
+    }
+
+    const safe = await prisma.trackedSafe.update({
+      where: { id },
+      data: {
+        ...(label !== undefined ? { label: label || null } : {}),
+        ...(notes !== undefined ? { notes: notes || null } : {})
+      },
+      include: { addedBy: { select: { walletAddress: true, email: true, name: true } } }
+    });
+
+    return NextResponse.json({ success: true, safe });
+  } catch (error) {
+    console.error('Safe update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+
+    const existing = await prisma.trackedSafe.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Safe not found' }, { status: 404 });
+    }
+
+    await prisma.trackedSafe.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Safe delete error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { loadSettings } from '@/lib/settings';
+
+const ADDED_BY_SELECT = { select: { walletAddress: true, email: true, name: true } };
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const { searchParams } = new URL(request.url);
+    const chainId = Number(searchParams.get('chainId'));
+
+    if (!Number.isInteger(chainId)) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const safes = await prisma.trackedSafe.findMany({
+      where: { chainId },
+      include: { addedBy: ADDED_BY_SELECT },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({ safes });
+  } catch (error) {
+    console.error('Safe list error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Accepts one address or a batch; addresses that are already tracked are left untouched.
+// Adding is admin-only, except a browser's one-time upload of its old localStorage list,
+// which every role sends on first load (flagged `migration` and noted on the rows).
+export async function POST(request: Request) {
+  try {
+    const { chainId, addresses, label, notes, migration } = await request.json();
+    const isMigration = migration === true;
+
+    const caller = await authorize(request, isMigration ? 'VIEWER' : 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    if (!Number.isInteger(chainId) || !Array.isArray(addresses) || addresses.length === 0) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+    if ((await loadSettings()).disabledChains.includes(chainId)) {
+      return NextResponse.json({ error: 'Network is disabled' }, { status: 409 });
+    }
+
+    const invalid = addresses.filter((a: unknown) => typeof a !== 'string' || !isAddress(a));
+    const normalized = Array.from(new Set(addresses.filter((a: unknown) => typeof a === 'string' && isAddress(a)).map((a: string) => a.toLowerCase())));
+
+    const result = await prisma.trackedSafe.createMany({
+      data: normalized.map(address => ({
+        chainId,
+        address,
+        label: isMigration ? null : label || null,
+        notes: isMigration ? 'Migrated from browser storage' : notes || null,
+        addedById: caller.id
+      })),
+      skipDuplicates: true
+    });
+
+    const safes = await prisma.trackedSafe.findMany({
+      where: { chainId, address: { in: normalized } },
+      include: { addedBy: ADDED_BY_SELECT }
+    });
+
+    return NextResponse.json({ success: true, created: result.count, invalid, safes });
+  } catch (error) {
+    console.error('Safe create error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { CHAINS } from '@/lib/chains';
+import { handleSandboxRpc } from '@/lib/sandboxBundler';
+
+// Local bundler + paymaster for the sandbox chain (`bundlerUrl` / `paymasterUrl` in config/chains.json).
+// Only served outside production, and only while a sandbox chain is enabled.
+export async function POST(request: Request) {
+  try {
+    const chain = CHAINS.find(c => c.sandbox);
+    if (!chain || process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'Not Found' }, { status: 404 });
+    }
+
+    const { id = null, method, params = [] } = await request.json();
+    if (typeof method !== 'string' || !Array.isArray(params)) {
+      return NextResponse.json({ jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid request' } });
+    }
+
+    return NextResponse.json({ jsonrpc: '2.0', id, ...(await handleSandboxRpc(chain, method, params)) });
+  } catch (error) {
+    console.error('Sandbox RPC error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
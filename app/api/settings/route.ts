@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { loadSettings } from '@/lib/settings';
+import { CHAINS, getChainConfig } from '@/lib/chains';
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
+
+    const settings = await loadSettings();
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Settings load error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const caller = await authorize(request, 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    // Partial update: only the keys present in the body are saved.
+    const { enforceAddressBook, disabledChains } = await request.json();
+
+    // At least one network has to stay on.
+    const validChains = disabledChains === undefined
+      || (Array.isArray(disabledChains) && disabledChains.length < CHAINS.length && disabledChains.every((id: unknown) => Number.isInteger(id) && getChainConfig(id as number)));
+    if ((enforceAddressBook !== undefined && typeof enforceAddressBook !== 'boolean') || !validChains) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const updates = { enforceAddressBook, disabledChains };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      await prisma.setting.upsert({
+        where: { key },
+        create: { key, value, updatedBy: caller.walletAddress },
+        update: { value, updatedBy: caller.walletAddress }
+      });
+    }
+
+    return NextResponse.json({ success: true, settings: await loadSettings() });
+  } catch (error) {
+    console.error('Settings update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { label } = await request.json();
+
+    if (typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const existing = await prisma.signerLabel.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    const entry = await prisma.signerLabel.update({ where: { id }, data: { label: label.trim() } });
+    return NextResponse.json({ success: true, label: entry });
+  } catch (error) {
+    console.error('Signer label update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+
+    const existing = await prisma.signerLabel.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    await prisma.signerLabel.delete({ where: { id } });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Signer label delete error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+
+// Labels are global rather than per chain: an owner key has the same address everywhere.
+export async function POST(request: Request) {
+  try {
+    const caller = await authorize(request, 'OPERATOR');
+    if (caller instanceof NextResponse) return caller;
+
+    const { address, label } = await request.json();
+
+    if (typeof address !== 'string' || !isAddress(address) || typeof label !== 'string' || !label.trim()) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const existing = await prisma.signerLabel.findUnique({ where: { address: address.toLowerCase() } });
+    if (existing) {
+      return NextResponse.json({ error: 'Signer already has a label' }, { status: 409 });
+    }
+
+    const entry = await prisma.signerLabel.create({
+      data: { address: address.toLowerCase(), label: label.trim(), addedById: caller.id }
+    });
+
+    return NextResponse.json({ success: true, label: entry });
+  } catch (error) {
+    console.error('Signer label create error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+import { ROLES, type Role } from '@/lib/roles';
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const caller = await authorize(request, 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    const { id } = await params;
+    const { role } = await request.json();
+
+    if (!ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Someone has to be left who can hand roles back out.
+    if (existing.role === 'ADMIN' && role !== 'ADMIN') {
+      const admins = await prisma.user.count({ where: { role: 'ADMIN' } });
+      if (admins <= 1) {
+        return NextResponse.json({ error: 'Cannot demote the last admin' }, { status: 409 });
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: { role: role as Role },
+      select: { id: true, walletAddress: true, email: true, name: true, role: true, createdAt: true }
+    });
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('User role update error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,40 +1,84 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { authorize, getUserWallets } from '@/lib/auth';
+import { getChainConfig } from '@/lib/chains';
+import { getReadClient } from '@/lib/readClients';
+import { scanSafes } from '@/lib/safeScanner';
+import { walletTypeOf, type OwnerIdentity } from '@/lib/identities';
 
 export async function POST(request: Request) {
   try {
-    const { addresses } = await request.json(); // Array of strings
+    const caller = await authorize(request);
+    if (caller instanceof NextResponse) return caller;
 
-    if (!Array.isArray(addresses)) {
+    const { chainId, addresses } = await request.json(); // Array of strings
+
+    if (!Array.isArray(addresses) || !Number.isInteger(chainId) || !getChainConfig(chainId)) {
       return NextResponse.json({ error: 'Invalid input' }, { status: 400 });
     }
 
-    const normalizedAddresses = addresses.map((a: string) => a.toLowerCase());
-
-    const users = await prisma.user.findMany({
-      where: {
-        walletAddress: { in: normalizedAddresses }
-      },
-      select: {
-        walletAddress: true,
-        email: true,
-        name: true
-      }
+    // Account details are only disclosed for co-owners: owners of tracked Safes on this chain that the
+    // caller also owns. Ownership is read on-chain so a registry entry alone does not expose anyone's email.
+    // Team labels are returned for any requested address.
+    const tracked = await prisma.trackedSafe.findMany({ where: { chainId }, select: { address: true } });
+    const scanned = tracked.length > 0 ? await scanSafes(getReadClient(chainId), tracked.map(t => t.address)) : [];
+    const mine = new Set(await getUserWallets(caller));
+    const visible = new Set<string>();
+    scanned
+      .filter(s => s.isSafe && s.owners.some(o => mine.has(o.toLowerCase())))
+      .forEach(s => s.owners.forEach(o => visible.add(o.toLowerCase())));
+
+    const requested: string[] = Array.from(new Set(addresses
+      .filter((a: unknown): a is string => typeof a === 'string')
+      .map(a => a.toLowerCase())));
+    const disclosed = requested.filter(a => visible.has(a));
+
+    // Linked wallets (which know their wallet client) win over the primary walletAddress match,
+    // which is all there is for users not synced since LinkedWallet was added.
+    const [linked, primaries, labels] = await Promise.all([
+      prisma.linkedWallet.findMany({
+        where: { address: { in: disclosed } },
+        include: { user: { select: { email: true, name: true, updatedAt: true } } }
+      }),
+      prisma.user.findMany({
+        where: { walletAddress: { in: disclosed } },
+        select: { walletAddress: true, email: true, name: true, updatedAt: true }
+      }),
+      prisma.signerLabel.findMany({ where: { address: { in: requested } } })
+    ]);
+
+    const identities: Record<string, OwnerIdentity> = {};
+    const blank = (address: string): OwnerIdentity => ({
+      address, name: null, email: null, label: null, labelId: null, walletType: null, walletClient: null,
+      hasLoggedIn: visible.has(address) ? false : null, lastSeenAt: null
     });
 
-    // Create a map: { "0x123...": "John Doe (john@gmail.com)" }
-    const userMap: Record<string, string> = {};
-    
-    // FIX: Added explicit type annotation to 'u'
-    users.forEach((u: { walletAddress: string; email: string | null; name: string | null }) => {
-      if (u.email || u.name) {
-        userMap[u.walletAddress] = u.email || u.name || '';
-      }
+    primaries.forEach(u => {
+      identities[u.walletAddress] = { ...blank(u.walletAddress), name: u.name, email: u.email, hasLoggedIn: true, lastSeenAt: u.updatedAt.toISOString() };
+    });
+    linked.forEach(w => {
+      const address = w.address as string;
+      identities[address] = {
+        ...(identities[address] ?? blank(address)),
+        name: w.user.name,
+        email: w.user.email,
+        walletType: walletTypeOf(w),
+        walletClient: w.walletClient,
+        hasLoggedIn: true,
+        lastSeenAt: w.user.updatedAt.toISOString()
+      };
+    });
+    labels.forEach(l => {
+      identities[l.address] = { ...(identities[l.address] ?? blank(l.address)), label: l.label, labelId: l.id };
+    });
+    // Co-owners who never signed in are still worth flagging as such.
+    disclosed.forEach(address => {
+      if (!identities[address]) identities[address] = blank(address);
     });
 
-    return NextResponse.json({ map: userMap });
+    return NextResponse.json({ identities });
   } catch (error) {
     console.error(error);
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorize } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  try {
+    const caller = await authorize(request, 'ADMIN');
+    if (caller instanceof NextResponse) return caller;
+
+    const users = await prisma.user.findMany({
+      select: { id: true, walletAddress: true, email: true, name: true, role: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('User list error:', error);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { BookUser, X, Plus, Trash2, Pencil, Check, Lock } from 'lucide-react';
+import { getAddress, isAddress } from 'viem';
+import type { AddressBookRecord, AppSettings } from '@/lib/addressBook';
+import { authFetch } from '@/lib/authFetch';
+import { hasRole, type Role } from '@/lib/roles';
+import RecipientInput from './RecipientInput';
+import styles from './AddressBookPanel.module.css';
+
+interface Props {
+    chainId: number;
+    networkName: string;
+    entries: AddressBookRecord[];
+    settings: AppSettings;
+    role: Role;
+    onEntriesChanged: () => void;
+    onSettingsChanged: (settings: AppSettings) => void;
+    onClose: () => void;
+}
+
+export default function AddressBookPanel({ chainId, networkName, entries, settings, role, onEntriesChanged, onSettingsChanged, onClose }: Props) {
+    const [address, setAddress] = useState('');
+    const [label, setLabel] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editLabel, setEditLabel] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    // While the allow-list is enforced, only admins may change it; viewers never can.
+    const isAdmin = hasRole(role, 'ADMIN');
+    const canEdit = hasRole(role, settings.enforceAddressBook ? 'ADMIN' : 'OPERATOR');
+
+    const request = async (url: string, init: RequestInit, success: string) => {
+        setIsSaving(true);
+        try {
+            const resp = await authFetch(url, { headers: { 'Content-Type': 'application/json' }, ...init });
+            const result = await resp.json();
+            if (!resp.ok) throw new Error(result.error || 'Request rejected');
+            toast.success(success);
+            return result;
+        } catch (e) {
+            console.error(e);
+            toast.error(e instanceof Error ? e.message : 'Address book update failed');
+            return null;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const addEntry = async () => {
+        if (!isAddress(address.trim()) || !label.trim()) {
+            toast.error('Enter a valid address and a label');
+            return;
+        }
+        const result = await request('/api/address-book', {
+            method: 'POST',
+            body: JSON.stringify({ chainId, address: address.trim(), label: label.trim() })
+        }, 'Address saved');
+        if (!result) return;
+        setAddress('');
+        setLabel('');
+        onEntriesChanged();
+    };
+
+    const saveLabel = async (id: string) => {
+        const result = await request(`/api/address-book/${id}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ label: editLabel })
+        }, 'Label updated');
+        if (!result) return;
+        setEditingId(null);
+        onEntriesChanged();
+    };
+
+    const removeEntry = async (id: string) => {
+        const result = await request(`/api/address-book/${id}`, { method: 'DELETE' }, 'Address removed');
+        if (result) onEntriesChanged();
+    };
+
+    const toggleEnforcement = async () => {
+        const result = await request('/api/settings', {
+            method: 'PUT',
+            body: JSON.stringify({ enforceAddressBook: !settings.enforceAddressBook })
+        }, settings.enforceAddressBook ? 'Allow-list disabled' : 'Allow-list enforced');
+        if (result) onSettingsChanged(result.settings);
+    };
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <BookUser size={18} color="#a855f7" />
+                    <span className={styles.title}>Address Book · {networkName}</span>
+                </div>
+                <button onClick={onClose} className={styles.closeBtn}><X size={16} /></button>
+            </div>
+
+            <label className={styles.enforceRow}>
+                <input type="checkbox" checked={settings.enforceAddressBook} disabled={!isAdmin || isSaving} onChange={toggleEnforcement} />
+                <span>Only allow transfers to addresses in the address book</span>
+                {!isAdmin && <span className={styles.muted}><Lock size={12} /> Admins only</span>}
+            </label>
+
+            {canEdit && (
+                <div className={styles.addRow}>
+                    <input value={label} onChange={e => setLabel(e.target.value)} placeholder="Label (e.g. Treasury cold wallet)" className={styles.input} />
+                    <RecipientInput
+                        value={address}
+                        onChange={setAddress}
+                        chainId={chainId}
+                        addressBook={entries}
+                        enforceAddressBook={false}
+                        inputClassName={styles.input}
+                        placeholder="Address (0x...) or name.eth"
+                    />
+                    <button onClick={addEntry} disabled={isSaving} className={styles.addBtn}><Plus size={16} /> Add</button>
+                </div>
+            )}
+
+            <div className={styles.list}>
+                {entries.length === 0 ? (
+                    <span className={styles.empty}>No saved destinations on this network</span>
+                ) : entries.map(entry => (
+                    <div key={entry.id} className={styles.row}>
+                        {editingId === entry.id ? (
+                            <input value={editLabel} onChange={e => setEditLabel(e.target.value)} className={styles.input} autoFocus />
+                        ) : (
+                            <span className={styles.label}>{entry.label}</span>
+                        )}
+                        <span className={styles.address}>{getAddress(entry.address)}</span>
+                        <span className={styles.muted}>
+                            {entry.addedBy ? (entry.addedBy.email || entry.addedBy.name || `${entry.addedBy.walletAddress.slice(0, 6)}...`) : '—'}
+                        </span>
+                        {canEdit && (
+                            <div className={styles.rowActions}>
+                                {editingId === entry.id ? (
+                                    <button onClick={() => saveLabel(entry.id)} disabled={isSaving} className={styles.iconBtn} title="Save"><Check size={14} /></button>
+                                ) : (
+                                    <button onClick={() => { setEditingId(entry.id); setEditLabel(entry.label); }} className={styles.iconBtn} title="Rename"><Pencil size={14} /></button>
+                                )}
+                                <button onClick={() => removeEntry(entry.id)} disabled={isSaving} className={styles.iconBtn} title="Remove"><Trash2 size={14} /></button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </motion.div>
+    );
+}
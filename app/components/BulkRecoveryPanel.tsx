@@ -0,0 +1,317 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Layers, Rocket, RotateCcw, X, CheckCircle2, XCircle, Loader2, Clock } from 'lucide-react';
+import type { MetaTransactionData } from '@safe-global/types-kit';
+import { createPublicClient, custom, formatUnits, isAddress, type EIP1193Provider, type PublicClient } from 'viem';
+import { discoverBalances, buildSweepTransactions, type AssetBalance } from '@/lib/sweep';
+import { executeSafeTransactions, isUserRejection, type ExecutionResult } from '@/lib/safeExecution';
+import type { ChainConfig } from '@/lib/chains';
+import { findEntry, type AddressBookRecord, type AppSettings } from '@/lib/addressBook';
+import { recordRecovery } from '@/lib/recoveries';
+import { isOperationTimeout } from '@/lib/operations';
+import type { SafeData } from './SafeCard';
+import RecipientInput from './RecipientInput';
+import styles from './BulkRecoveryPanel.module.css';
+
+// Automatic attempts per Safe before it is reported as failed. Wallet rejections are never retried.
+const MAX_ATTEMPTS = 2;
+
+type QueueStatus = 'queued' | 'running' | 'success' | 'failed';
+
+type QueueItem = {
+    safeId: string;
+    address: string;
+    status: QueueStatus;
+    attempts: number;
+    hash?: string;
+    error?: string;
+};
+
+interface Props {
+    safes: SafeData[];
+    config: ChainConfig;
+    addressBook: AddressBookRecord[];
+    settings: AppSettings;
+    currentUserAddress: string;
+    getProvider: () => Promise<EIP1193Provider>;
+    onRecovered: (safeId: string) => void;
+    onClose: () => void;
+}
+
+// Only single-signature Safes the user owns can be drained without collecting more signatures.
+const getIneligibleReason = (safe: SafeData): string | null => {
+    if (!safe.isOwner) return 'Not an owner';
+    if (safe.threshold > 1) return `Needs ${safe.threshold} signatures`;
+    return null;
+};
+
+export default function BulkRecoveryPanel({ safes, config, addressBook, settings, currentUserAddress, getProvider, onRecovered, onClose }: Props) {
+    const eligibleSafes = useMemo(() => safes.filter(s => !getIneligibleReason(s)), [safes]);
+
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(eligibleSafes.filter(s => parseFloat(s.balanceUSDC) > 0).map(s => s.id)));
+    const [destination, setDestination] = useState('');
+    const [mode, setMode] = useState<'usdc' | 'sweep'>('usdc');
+    const [previews, setPreviews] = useState<Record<string, AssetBalance[]>>({});
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [queue, setQueue] = useState<QueueItem[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const phase = isRunning ? 'running' : queue.length > 0 ? 'report' : 'setup';
+
+    const getPublicClient = (provider: EIP1193Provider) =>
+        createPublicClient({ chain: config.chainObj, transport: custom(provider) }) as PublicClient;
+
+    // In USDC mode only the stablecoin is moved; sweep mode drains every configured asset.
+    const discoverFor = (publicClient: PublicClient, address: string) => mode === 'usdc'
+        ? discoverBalances(publicClient, address, config.tokens.filter(t => t.address.toLowerCase() === config.usdcAddress.toLowerCase()))
+            .then(assets => assets.filter(a => a.address !== null))
+        : discoverBalances(publicClient, address, config.tokens, config.nativeSymbol);
+
+    const toggleSafe = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(prev => prev.size === eligibleSafes.length ? new Set() : new Set(eligibleSafes.map(s => s.id)));
+    };
+
+    const selectMode = (next: 'usdc' | 'sweep') => {
+        setMode(next);
+        setPreviews({});
+    };
+
+    const handlePreview = async () => {
+        setIsPreviewing(true);
+        try {
+            const publicClient = getPublicClient(await getProvider());
+            const targets = safes.filter(s => selected.has(s.id));
+            const results = await Promise.allSettled(targets.map(s => discoverFor(publicClient, s.address)));
+            const next: Record<string, AssetBalance[]> = {};
+            results.forEach((res, i) => {
+                if (res.status === 'fulfilled') next[targets[i].id] = res.value;
+                else console.error(`[Bulk] Preview failed for ${targets[i].address}:`, res.reason);
+            });
+            setPreviews(next);
+        } catch (e) {
+            console.error(e);
+            toast.error('Preview scan failed');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const updateItem = (safeId: string, patch: Partial<QueueItem>) => {
+        setQueue(prev => prev.map(item => item.safeId === safeId ? { ...item, ...patch } : item));
+    };
+
+    const runQueue = async (items: QueueItem[]) => {
+        setIsRunning(true);
+        let successCount = 0;
+
+        for (const item of items) {
+            const safe = safes.find(s => s.id === item.safeId);
+            if (!safe) continue;
+
+            // Only the outcome of the last attempt reaches the ledger: one CONFIRMED or FAILED row per vault.
+            let attempts = item.attempts;
+            let executed: { transactions: MetaTransactionData[]; result: ExecutionResult } | null = null;
+            let failedTransactions: MetaTransactionData[] | null = null;
+            while (attempts < item.attempts + MAX_ATTEMPTS) {
+                attempts++;
+                updateItem(item.safeId, { status: 'running', attempts, error: undefined });
+                failedTransactions = null;
+                let transactions: MetaTransactionData[] | null = null;
+                try {
+                    const provider = await getProvider();
+                    const assets = await discoverFor(getPublicClient(provider), safe.address);
+                    if (assets.length === 0) {
+                        updateItem(item.safeId, { status: 'failed', error: 'Nothing left to recover' });
+                        break;
+                    }
+
+                    transactions = buildSweepTransactions(assets, destination);
+                    const result = await executeSafeTransactions({
+                        provider,
+                        signer: currentUserAddress,
+                        safeAddress: safe.address,
+                        is4337Enabled: safe.is4337Enabled,
+                        config,
+                        transactions,
+                        description: `Bulk sweep to ${destination}`
+                    });
+                    executed = { transactions, result };
+                    break;
+                } catch (e) {
+                    console.error(`[Bulk] Attempt ${attempts} failed for ${safe.address}:`, e);
+                    const message = e instanceof Error ? e.message : String(e);
+                    updateItem(item.safeId, { status: 'failed', error: message });
+                    // A timed-out operation may still land; retrying could spend the vault twice.
+                    if (isUserRejection(e) || isOperationTimeout(e)) break;
+                    failedTransactions = transactions;
+                }
+            }
+
+            // Recorded outside the attempts so a ledger hiccup can never turn a landed transfer into a retry.
+            if (executed) {
+                await recordRecovery({ config, safeAddress: safe.address, transactions: executed.transactions, status: 'CONFIRMED', result: executed.result });
+                updateItem(item.safeId, { status: 'success', hash: executed.result.transactionHash });
+                onRecovered(item.safeId);
+                successCount++;
+            } else if (failedTransactions) {
+                await recordRecovery({ config, safeAddress: safe.address, transactions: failedTransactions, status: 'FAILED' });
+            }
+        }
+
+        setIsRunning(false);
+        const failedCount = items.length - successCount;
+        if (failedCount === 0) toast.success(`Recovered ${successCount} vault${successCount === 1 ? '' : 's'}`);
+        else toast.warning(`${successCount} recovered, ${failedCount} failed`);
+    };
+
+    const handleStart = () => {
+        if (!isAddress(destination)) {
+            toast.error('Invalid destination coordinates');
+            return;
+        }
+        if (settings.enforceAddressBook && !findEntry(addressBook, destination)) {
+            toast.error('Destination is not in the address book');
+            return;
+        }
+        if (selected.size === 0) {
+            toast.error('No vaults selected');
+            return;
+        }
+        const items: QueueItem[] = safes.filter(s => selected.has(s.id)).map(s => ({ safeId: s.id, address: s.address, status: 'queued', attempts: 0 }));
+        setQueue(items);
+        runQueue(items);
+    };
+
+    const handleRetryFailed = () => {
+        const failed = queue.filter(item => item.status === 'failed').map(item => ({ ...item, status: 'queued' as const }));
+        setQueue(prev => prev.map(item => item.status === 'failed' ? { ...item, status: 'queued' } : item));
+        runQueue(failed);
+    };
+
+    const handleReset = () => {
+        setQueue([]);
+        setPreviews({});
+    };
+
+    const renderStatusIcon = (status: QueueStatus) => {
+        switch (status) {
+            case 'success': return <CheckCircle2 size={16} color="#22c55e" />;
+            case 'failed': return <XCircle size={16} color="#ef4444" />;
+            case 'running': return <Loader2 size={16} className="spin-anim" color="#a855f7" />;
+            default: return <Clock size={16} color="#71717a" />;
+        }
+    };
+
+    const successItems = queue.filter(item => item.status === 'success');
+    const failedItems = queue.filter(item => item.status === 'failed');
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <Layers size={18} color="#a855f7" />
+                    <span className={styles.title}>Bulk Extraction</span>
+                </div>
+                <button onClick={onClose} disabled={isRunning} className={styles.closeBtn}><X size={16} /></button>
+            </div>
+
+            {phase === 'setup' ? (
+                <>
+                    <div className={styles.controls}>
+                        <RecipientInput
+                            value={destination}
+                            onChange={setDestination}
+                            chainId={config.chainObj.id}
+                            addressBook={addressBook}
+                            enforceAddressBook={settings.enforceAddressBook}
+                            inputClassName={styles.input}
+                        />
+                        <div className={styles.modeToggle}>
+                            <button onClick={() => selectMode('usdc')} className={`${styles.modeBtn} ${mode === 'usdc' ? styles.modeBtnActive : ''}`}>All USDC</button>
+                            <button onClick={() => selectMode('sweep')} className={`${styles.modeBtn} ${mode === 'sweep' ? styles.modeBtnActive : ''}`}>Everything</button>
+                        </div>
+                    </div>
+
+                    <div className={styles.listHeader}>
+                        <label className={styles.checkLabel}>
+                            <input type="checkbox" checked={eligibleSafes.length > 0 && selected.size === eligibleSafes.length} onChange={toggleAll} />
+                            {selected.size} of {eligibleSafes.length} eligible selected
+                        </label>
+                        <button onClick={handlePreview} disabled={isPreviewing || selected.size === 0} className={styles.secondaryBtn}>
+                            {isPreviewing ? 'Scanning...' : 'Preview Amounts'}
+                        </button>
+                    </div>
+
+                    <div className={styles.list}>
+                        {safes.map(safe => {
+                            const reason = getIneligibleReason(safe);
+                            const preview = previews[safe.id];
+                            return (
+                                <label key={safe.id} className={`${styles.row} ${reason ? styles.rowDisabled : ''}`}>
+                                    <input type="checkbox" disabled={!!reason} checked={selected.has(safe.id)} onChange={() => toggleSafe(safe.id)} />
+                                    <span className={styles.address}>{safe.address.slice(0, 8)}...{safe.address.slice(-6)}</span>
+                                    <span className={styles.amount}>
+                                        {reason ? reason : preview
+                                            ? (preview.length === 0 ? 'Empty' : preview.map(a => `${formatUnits(a.raw, a.decimals)} ${a.symbol}`).join(' · '))
+                                            : `${safe.balanceUSDC} USDC`}
+                                    </span>
+                                </label>
+                            );
+                        })}
+                    </div>
+
+                    <button onClick={handleStart} disabled={selected.size === 0} className={styles.fireBtn}>
+                        <Rocket size={18} /> Run {selected.size} Extraction{selected.size === 1 ? '' : 's'}
+                    </button>
+                </>
+            ) : (
+                <>
+                    {phase === 'report' && (
+                        <div className={styles.summary}>
+                            <span style={{ color: '#22c55e' }}>{successItems.length} succeeded</span>
+                            <span style={{ color: failedItems.length ? '#ef4444' : '#71717a' }}>{failedItems.length} failed</span>
+                        </div>
+                    )}
+                    <div className={styles.list}>
+                        {queue.map(item => (
+                            <div key={item.safeId} className={styles.row}>
+                                {renderStatusIcon(item.status)}
+                                <span className={styles.address}>{item.address.slice(0, 8)}...{item.address.slice(-6)}</span>
+                                <span className={styles.amount}>
+                                    {item.status === 'success' && item.hash ? (
+                                        <a href={`${config.explorer}/tx/${item.hash}`} target="_blank" rel="noreferrer" className={styles.link}>
+                                            {item.hash.slice(0, 10)}...
+                                        </a>
+                                    ) : item.status === 'failed' ? (
+                                        <span className={styles.error} title={item.error}>{item.error?.slice(0, 40)}</span>
+                                    ) : item.status === 'running' ? `Attempt ${item.attempts}` : 'Queued'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    {phase === 'report' && (
+                        <div className={styles.footer}>
+                            <button onClick={handleReset} className={styles.secondaryBtn}>New Batch</button>
+                            {failedItems.length > 0 && (
+                                <button onClick={handleRetryFailed} className={styles.secondaryBtn}>
+                                    <RotateCcw size={14} /> Retry Failed
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+}
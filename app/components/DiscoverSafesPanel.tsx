@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { Radar, X, Square, Plus } from 'lucide-react';
+import { createPublicClient, custom, type Chain, type EIP1193Provider, type PublicClient } from 'viem';
+import { discoverSafesByOwner, DEFAULT_DISCOVERY_LOOKBACK, type DiscoveredSafe, type DiscoveryProgress } from '@/lib/safeDiscovery';
+import { scanSafes } from '@/lib/safeScanner';
+import type { ImportReport } from './ImportSafesPanel';
+import styles from './DiscoverSafesPanel.module.css';
+
+type Candidate = DiscoveredSafe & { stillOwner: boolean; tracked: boolean };
+
+interface Props {
+    networkName: string;
+    chainObj: Chain;
+    ownerAddresses: string[];
+    trackedAddresses: string[];
+    getProvider: () => Promise<EIP1193Provider>;
+    onTrack?: (addresses: string[]) => Promise<ImportReport>; // Omitted for roles that cannot add to the registry
+    onClose: () => void;
+}
+
+export default function DiscoverSafesPanel({ networkName, chainObj, ownerAddresses, trackedAddresses, getProvider, onTrack, onClose }: Props) {
+    const [owners, setOwners] = useState<Set<string>>(() => new Set(ownerAddresses));
+    const [fromBlock, setFromBlock] = useState('');
+    const [toBlock, setToBlock] = useState('');
+    const [progress, setProgress] = useState<DiscoveryProgress | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [candidates, setCandidates] = useState<Candidate[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isTracking, setIsTracking] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const trackedSet = useMemo(() => new Set(trackedAddresses.map(a => a.toLowerCase())), [trackedAddresses]);
+
+    const toggle = (setter: typeof setOwners, value: string) => {
+        setter(prev => {
+            const next = new Set(prev);
+            if (next.has(value)) next.delete(value); else next.add(value);
+            return next;
+        });
+    };
+
+    const handleScan = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsScanning(true);
+        setCandidates(null);
+        try {
+            const provider = await getProvider();
+            const publicClient = createPublicClient({ chain: chainObj, transport: custom(provider) }) as PublicClient;
+            const latest = await publicClient.getBlockNumber();
+            const end = toBlock.trim() ? BigInt(toBlock.trim()) : latest;
+            const start = fromBlock.trim() ? BigInt(fromBlock.trim()) : (end > DEFAULT_DISCOVERY_LOOKBACK ? end - DEFAULT_DISCOVERY_LOOKBACK : BigInt(0));
+            if (start > end) throw new Error('From block is after to block');
+
+            const discovered = await discoverSafesByOwner(publicClient, Array.from(owners), {
+                fromBlock: start,
+                toBlock: end,
+                onProgress: setProgress,
+                signal: controller.signal
+            });
+
+            // Setup-time owners may have been swapped out since; confirm against current state.
+            const current = discovered.length > 0 ? await scanSafes(publicClient, discovered.map(d => d.address)) : [];
+            const wanted = new Set(Array.from(owners).map(o => o.toLowerCase()));
+            const results = discovered.map((d, i) => ({
+                ...d,
+                stillOwner: current[i]?.owners.some(o => wanted.has(o.toLowerCase())) ?? false,
+                tracked: trackedSet.has(d.address.toLowerCase())
+            }));
+            setCandidates(results);
+            setSelected(new Set(results.filter(r => r.stillOwner && !r.tracked).map(r => r.address)));
+            if (controller.signal.aborted) toast.info('Scan stopped early; showing partial results');
+        } catch (e) {
+            console.error('[Discover] Scan failed', e);
+            const message = e instanceof Error ? e.message : String(e);
+            toast.error(`Scan failed: ${message.slice(0, 60)}`);
+        } finally {
+            setIsScanning(false);
+            abortRef.current = null;
+        }
+    };
+
+    const handleTrack = async () => {
+        if (!onTrack) return;
+        setIsTracking(true);
+        try {
+            const report = await onTrack(Array.from(selected));
+            const added = new Set(report.added.map(a => a.toLowerCase()));
+            setCandidates(prev => prev?.map(c => added.has(c.address.toLowerCase()) ? { ...c, tracked: true } : c) ?? null);
+            setSelected(new Set());
+        } finally {
+            setIsTracking(false);
+        }
+    };
+
+    const percent = progress && progress.toBlock >= progress.fromBlock
+        ? Number(((progress.scannedTo - progress.fromBlock + BigInt(1)) * BigInt(100)) / (progress.toBlock - progress.fromBlock + BigInt(1)))
+        : 0;
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <Radar size={18} color="#a855f7" />
+                    <span className={styles.title}>Find My Vaults</span>
+                </div>
+                <button onClick={onClose} disabled={isScanning || isTracking} className={styles.closeBtn}><X size={16} /></button>
+            </div>
+
+            <div className={styles.owners}>
+                <span className={styles.label}>Owner wallets</span>
+                {ownerAddresses.map(address => (
+                    <label key={address} className={styles.checkLabel}>
+                        <input type="checkbox" checked={owners.has(address)} onChange={() => toggle(setOwners, address)} disabled={isScanning} />
+                        <span className={styles.mono}>{address}</span>
+                    </label>
+                ))}
+            </div>
+
+            <div className={styles.controls}>
+                <input value={fromBlock} onChange={e => setFromBlock(e.target.value.replace(/\D/g, ''))} placeholder={`From block (default latest - ${DEFAULT_DISCOVERY_LOOKBACK.toLocaleString()})`} className={styles.input} disabled={isScanning} />
+                <input value={toBlock} onChange={e => setToBlock(e.target.value.replace(/\D/g, ''))} placeholder="To block (default latest)" className={styles.input} disabled={isScanning} />
+                {isScanning ? (
+                    <button onClick={() => abortRef.current?.abort()} className={styles.secondaryBtn}><Square size={14} /> Stop</button>
+                ) : (
+                    <button onClick={handleScan} disabled={owners.size === 0} className={styles.fireBtn}>Scan {networkName}</button>
+                )}
+            </div>
+
+            {isScanning && progress && (
+                <div className={styles.progress}>
+                    <div className={styles.progressBar} style={{ width: `${percent}%` }} />
+                    <span className={styles.progressText}>Block {progress.scannedTo.toString()} of {progress.toBlock.toString()} · {progress.found} found</span>
+                </div>
+            )}
+
+            {candidates && (
+                <>
+                    <div className={styles.list}>
+                        {candidates.length === 0 ? (
+                            <span className={styles.empty}>No Safes set up with these owners in this block range</span>
+                        ) : candidates.map(c => (
+                            <label key={c.address} className={`${styles.row} ${!c.stillOwner || c.tracked ? styles.rowDisabled : ''}`}>
+                                <input type="checkbox" checked={selected.has(c.address)} onChange={() => toggle(setSelected, c.address)} disabled={!onTrack || !c.stillOwner || c.tracked} />
+                                <span className={styles.mono}>{c.address}</span>
+                                <span className={styles.meta}>
+                                    {c.tracked ? 'Already tracked' : !c.stillOwner ? 'No longer an owner' : `Block ${c.blockNumber.toString()}`}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    {onTrack ? (
+                        <button onClick={handleTrack} disabled={isTracking || selected.size === 0} className={styles.fireBtn}>
+                            <Plus size={16} /> {isTracking ? 'Adding...' : `Track ${selected.size} Vault${selected.size === 1 ? '' : 's'}`}
+                        </button>
+                    ) : candidates.some(c => c.stillOwner && !c.tracked) && (
+                        <span className={styles.empty}>Send these addresses to an admin to have them tracked</span>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+}
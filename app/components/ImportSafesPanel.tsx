@@ -0,0 +1,114 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileUp, Upload, X, CheckCircle2, XCircle, MinusCircle, AlertTriangle } from 'lucide-react';
+import { parseAddressList } from '@/lib/addressImport';
+import styles from './ImportSafesPanel.module.css';
+
+export type ImportReport = {
+    added: string[];
+    notSafe: string[];
+};
+
+interface Props {
+    networkName: string;
+    trackedAddresses: string[];
+    onImport: (addresses: string[]) => Promise<ImportReport>;
+    onClose: () => void;
+}
+
+export default function ImportSafesPanel({ networkName, trackedAddresses, onImport, onClose }: Props) {
+    const [text, setText] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [report, setReport] = useState<(ImportReport & { invalid: string[]; alreadyTracked: string[] }) | null>(null);
+
+    // Split the pasted list into what will be fetched and what is skipped up front.
+    const parsed = useMemo(() => {
+        const { valid, invalid } = parseAddressList(text);
+        const tracked = new Set(trackedAddresses.map(a => a.toLowerCase()));
+        return {
+            fresh: valid.filter(a => !tracked.has(a.toLowerCase())),
+            alreadyTracked: valid.filter(a => tracked.has(a.toLowerCase())),
+            invalid
+        };
+    }, [text, trackedAddresses]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        const content = await file.text();
+        setText(prev => prev.trim() ? `${prev.trim()}\n${content}` : content);
+    };
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        try {
+            const result = await onImport(parsed.fresh);
+            setReport({ ...result, invalid: parsed.invalid, alreadyTracked: parsed.alreadyTracked });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleReset = () => {
+        setText('');
+        setReport(null);
+    };
+
+    const renderGroup = (title: string, icon: React.ReactNode, color: string, addresses: string[]) => addresses.length > 0 && (
+        <div className={styles.group}>
+            <span className={styles.groupTitle} style={{ color }}>{icon} {title} ({addresses.length})</span>
+            <div className={styles.list}>
+                {addresses.map(a => <span key={a} className={styles.address}>{a}</span>)}
+            </div>
+        </div>
+    );
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <FileUp size={18} color="#a855f7" />
+                    <span className={styles.title}>Import Vaults</span>
+                </div>
+                <button onClick={onClose} disabled={isImporting} className={styles.closeBtn}><X size={16} /></button>
+            </div>
+
+            {!report ? (
+                <>
+                    <textarea
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        placeholder={'One address per line, or CSV with the address in the first column\n0x...\n0x...'}
+                        rows={8}
+                        className={styles.textarea}
+                    />
+                    <div className={styles.controls}>
+                        <label className={styles.secondaryBtn}>
+                            <Upload size={14} /> Load .txt / .csv
+                            <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ''; }} hidden />
+                        </label>
+                        <span className={styles.summary}>
+                            <span style={{ color: '#22c55e' }}>{parsed.fresh.length} new</span>
+                            <span style={{ color: '#71717a' }}>{parsed.alreadyTracked.length} tracked</span>
+                            <span style={{ color: '#ef4444' }}>{parsed.invalid.length} invalid</span>
+                        </span>
+                    </div>
+                    <button onClick={handleImport} disabled={isImporting || parsed.fresh.length === 0} className={styles.fireBtn}>
+                        {isImporting ? `Scanning ${networkName}...` : `Import ${parsed.fresh.length} Vault${parsed.fresh.length === 1 ? '' : 's'}`}
+                    </button>
+                </>
+            ) : (
+                <>
+                    {renderGroup('Imported', <CheckCircle2 size={14} />, '#22c55e', report.added)}
+                    {renderGroup(`Not a Safe on ${networkName}`, <AlertTriangle size={14} />, '#eab308', report.notSafe)}
+                    {renderGroup('Already tracked', <MinusCircle size={14} />, '#71717a', report.alreadyTracked)}
+                    {renderGroup('Invalid', <XCircle size={14} />, '#ef4444', report.invalid)}
+                    <div className={styles.footer}>
+                        <button onClick={handleReset} className={styles.secondaryBtn}>Import More</button>
+                    </div>
+                </>
+            )}
+        </motion.div>
+    );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { KeyRound, AlertTriangle, X } from 'lucide-react';
+import { checkOwnerChange, type OwnerChange } from '@/lib/ownerManagement';
+import { identityName, type OwnerIdentity } from '@/lib/identities';
+import styles from './OwnerManagementPanel.module.css';
+
+type Kind = OwnerChange['kind'];
+
+interface Props {
+    safeAddress: string;
+    owners: string[]; // In getOwners() order
+    threshold: number;
+    currentUserAddress: string;
+    identities: Record<string, OwnerIdentity>; // Keyed by lowercased address
+    needsProposal: boolean;
+    isSubmitting: boolean;
+    onSubmit: (change: OwnerChange) => void;
+    onClose: () => void;
+}
+
+const KINDS: { kind: Kind; label: string }[] = [
+    { kind: 'swap', label: 'Swap' },
+    { kind: 'add', label: 'Add' },
+    { kind: 'remove', label: 'Remove' },
+    { kind: 'threshold', label: 'Threshold' }
+];
+
+export default function OwnerManagementPanel({ safeAddress, owners, threshold, currentUserAddress, identities, needsProposal, isSubmitting, onSubmit, onClose }: Props) {
+    const [kind, setKind] = useState<Kind>('swap');
+    const [owner, setOwner] = useState(owners[0] ?? '');
+    const [newOwner, setNewOwner] = useState('');
+    const [thresholdInput, setThresholdInput] = useState(String(threshold));
+
+    // Removing an owner keeps the threshold reachable by default.
+    const selectKind = (next: Kind) => {
+        setKind(next);
+        setThresholdInput(String(next === 'remove' ? Math.min(threshold, Math.max(owners.length - 1, 1)) : threshold));
+    };
+
+    const change = useMemo((): OwnerChange => {
+        const nextThreshold = Number(thresholdInput);
+        switch (kind) {
+            case 'swap': return { kind, oldOwner: owner, newOwner: newOwner.trim() };
+            case 'add': return { kind, owner: newOwner.trim(), threshold: nextThreshold };
+            case 'remove': return { kind, owner, threshold: nextThreshold };
+            case 'threshold': return { kind, threshold: nextThreshold };
+        }
+    }, [kind, owner, newOwner, thresholdInput]);
+
+    // An acknowledgement only covers the change it was ticked for; editing anything clears it.
+    const [acknowledgedChange, setAcknowledgedChange] = useState<OwnerChange | null>(null);
+    const acknowledged = acknowledgedChange === change;
+
+    const check = useMemo(
+        () => checkOwnerChange({ owners, threshold, change, safeAddress, currentUser: currentUserAddress }),
+        [owners, threshold, change, safeAddress, currentUserAddress]
+    );
+    const canSubmit = check.errors.length === 0 && (check.warnings.length === 0 || acknowledged) && !isSubmitting;
+
+    const ownerName = (address: string) => identityName(identities[address.toLowerCase()]) ?? `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.heading}><KeyRound size={12} /> Manage Signers</span>
+                <button onClick={onClose} className={styles.iconBtn}><X size={14} /></button>
+            </div>
+
+            <div className={styles.kinds}>
+                {KINDS.map(k => (
+                    <button key={k.kind} onClick={() => selectKind(k.kind)} className={`${styles.kindBtn} ${kind === k.kind ? styles.kindBtnActive : ''}`}>
+                        {k.label}
+                    </button>
+                ))}
+            </div>
+
+            {(kind === 'swap' || kind === 'remove') && (
+                <select value={owner} onChange={e => setOwner(e.target.value)} className={styles.input}>
+                    {owners.map(o => (
+                        <option key={o} value={o}>{ownerName(o)}{o.toLowerCase() === currentUserAddress?.toLowerCase() ? ' (you)' : ''}</option>
+                    ))}
+                </select>
+            )}
+            {(kind === 'swap' || kind === 'add') && (
+                <input value={newOwner} onChange={e => setNewOwner(e.target.value)} placeholder="New owner address (0x...)" className={styles.input} />
+            )}
+            {kind !== 'swap' && (
+                <label className={styles.thresholdRow}>
+                    Threshold
+                    <input value={thresholdInput} onChange={e => setThresholdInput(e.target.value)} type="number" min={1} max={check.owners.length} className={styles.thresholdInput} />
+                    <span>of {check.owners.length} owners</span>
+                </label>
+            )}
+
+            {check.errors.map(error => <span key={error} className={styles.error}>{error}</span>)}
+            {check.errors.length === 0 && check.warnings.map(warning => (
+                <span key={warning} className={styles.warning}><AlertTriangle size={12} /> {warning}</span>
+            ))}
+            {check.errors.length === 0 && check.warnings.length > 0 && (
+                <label className={styles.ack}>
+                    <input type="checkbox" checked={acknowledged} onChange={e => setAcknowledgedChange(e.target.checked ? change : null)} />
+                    I understand
+                </label>
+            )}
+
+            <button onClick={() => onSubmit(change)} disabled={!canSubmit} className={styles.submitBtn}>
+                {isSubmitting ? 'Processing...' : needsProposal ? `Propose (${check.threshold}-of-${check.owners.length})` : `Sign change (${check.threshold}-of-${check.owners.length})`}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { motion } from 'framer-motion';
+import { Activity, X, RotateCw, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+    getOperations, getServerOperations, subscribeOperations, dismissOperation, resumeOperation,
+    type TrackedOperation
+} from '@/lib/operations';
+import styles from './PendingOperationsPanel.module.css';
+
+type ChainSummary = { name: string; explorer: string };
+
+interface Props {
+    chains: Record<number, ChainSummary>;
+    onClose: () => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+    PENDING: '#eab308',
+    CONFIRMED: '#22c55e',
+    TIMEOUT: '#f97316',
+    REVERTED: '#ef4444',
+    DROPPED: '#ef4444',
+    REPLACED: '#ef4444'
+};
+
+export default function PendingOperationsPanel({ chains, onClose }: Props) {
+    const operations = useSyncExternalStore(subscribeOperations, getOperations, getServerOperations);
+    const finished = operations.filter(op => op.status !== 'PENDING');
+
+    const checkAgain = async (op: TrackedOperation) => {
+        const settled = await resumeOperation(op);
+        if (settled.status === 'CONFIRMED') toast.success(`${settled.description} confirmed`);
+        else if (settled.status !== 'TIMEOUT') toast.error(`${settled.description}: ${settled.error ?? settled.status}`);
+    };
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <Activity size={18} color="#a855f7" />
+                    <span className={styles.title}>Operations</span>
+                </div>
+                <div className={styles.headerActions}>
+                    <button onClick={() => finished.forEach(op => dismissOperation(op.hash))} disabled={finished.length === 0} className={styles.clearBtn}>
+                        <Trash2 size={14} /> Clear finished
+                    </button>
+                    <button onClick={onClose} className={styles.iconBtn}><X size={16} /></button>
+                </div>
+            </div>
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Sent</th>
+                            <th>Network</th>
+                            <th>Vault</th>
+                            <th>Operation</th>
+                            <th>Status</th>
+                            <th>Tx</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {operations.length === 0 ? (
+                            <tr><td colSpan={7} className={styles.empty}>No operations sent from this browser</td></tr>
+                        ) : operations.map(op => {
+                            const chain = chains[op.chainId];
+                            return (
+                                <tr key={op.hash}>
+                                    <td>{new Date(op.submittedAt).toLocaleString()}</td>
+                                    <td>{chain?.name ?? op.chainId}</td>
+                                    <td className={styles.mono}>{op.safeAddress.slice(0, 6)}...{op.safeAddress.slice(-4)}</td>
+                                    <td>
+                                        <span className={styles.description}>{op.description}</span>
+                                        <span className={styles.hash} title={op.hash}>{op.kind === 'userOp' ? 'UserOp' : 'Safe tx'} {op.hash.slice(0, 10)}...</span>
+                                    </td>
+                                    <td style={{ color: STATUS_COLORS[op.status] }} title={op.error ?? undefined}>
+                                        <span className={styles.status}>
+                                            {op.status === 'PENDING' && <Loader2 size={12} className="spin-anim" />}
+                                            {op.status}
+                                        </span>
+                                        {op.error && <span className={styles.error}>{op.error}</span>}
+                                    </td>
+                                    <td className={styles.mono}>
+                                        {op.transactionHash && chain ? (
+                                            <a href={`${chain.explorer}/tx/${op.transactionHash}`} target="_blank" rel="noreferrer" className={styles.link}>{op.transactionHash.slice(0, 10)}...</a>
+                                        ) : '—'}
+                                    </td>
+                                    <td>
+                                        <div className={styles.rowActions}>
+                                            {op.status === 'TIMEOUT' && (
+                                                <button onClick={() => checkAgain(op)} className={styles.iconBtn} title="Check again"><RotateCw size={14} /></button>
+                                            )}
+                                            {op.status !== 'PENDING' && (
+                                                <button onClick={() => dismissOperation(op.hash)} className={styles.iconBtn} title="Dismiss"><X size={14} /></button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FileSignature, PenLine, Rocket, XCircle, CheckCircle2, Circle, Download, Upload } from 'lucide-react';
+import type { EIP1193Provider } from 'viem';
+import { signProposal, executeProposal } from '@/lib/safeExecution';
+import { recordRecovery } from '@/lib/recoveries';
+import { authFetch } from '@/lib/authFetch';
+import { describeError } from '@/lib/preflight';
+import { recoverSafeSignatureSigner } from '@/lib/safeSignatures';
+import { downloadSafeTxTypedData, downloadTransactionBuilderBatch, parseSignatureImport } from '@/lib/offlineSigning';
+import type { ProposalRecord } from '@/lib/proposals';
+import { identityName, type OwnerIdentity } from '@/lib/identities';
+import type { ChainConfig } from '@/lib/chains';
+import type { SafeData } from './SafeCard';
+import styles from './PendingProposals.module.css';
+
+interface Props {
+    safe: SafeData;
+    proposals: ProposalRecord[];
+    currentUserAddress: string;
+    config: ChainConfig;
+    knownOwners: Record<string, OwnerIdentity>;
+    canOperate: boolean; // Viewers see proposals but cannot sign, execute or discard them
+    getProvider: () => Promise<EIP1193Provider>;
+    onChanged: () => void;
+    onExecuted: () => void; // Re-read the Safe after a proposal lands on-chain
+}
+
+export default function PendingProposals({ safe, proposals, currentUserAddress, config, knownOwners, canOperate, getProvider, onChanged, onExecuted }: Props) {
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [importingId, setImportingId] = useState<string | null>(null);
+    const [importText, setImportText] = useState('');
+    const me = currentUserAddress?.toLowerCase();
+
+    const exportProposal = (proposal: ProposalRecord, format: 'eip712' | 'txBuilder') => {
+        try {
+            if (format === 'eip712') downloadSafeTxTypedData(proposal, safe.version);
+            else downloadTransactionBuilderBatch(proposal, currentUserAddress);
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e));
+        }
+    };
+
+    const loadImportFile = async (file: File | undefined) => {
+        if (file) setImportText(await file.text());
+    };
+
+    // Signatures produced outside the app: each one is recovered against the proposal's hash and
+    // must belong to a current owner. The API checks the same before storing it.
+    const importSignatures = async (proposal: ProposalRecord) => {
+        setBusyId(proposal.id);
+        const toastId = toast.loading('Checking signatures...');
+        try {
+            const owners = new Set(safe.owners.map(o => o.toLowerCase()));
+            const signed = new Set(proposal.signatures.map(s => s.signer.toLowerCase()));
+            const rejected: string[] = [];
+            let added = 0;
+
+            for (const imported of parseSignatureImport(importText)) {
+                const signer = (await recoverSafeSignatureSigner(proposal.safeTxHash, imported.data)).toLowerCase();
+                if (imported.signer && imported.signer.toLowerCase() !== signer) {
+                    rejected.push(`Signature labelled ${imported.signer.slice(0, 6)}... was made by another key`);
+                } else if (!owners.has(signer)) {
+                    rejected.push(`${signer.slice(0, 6)}...${signer.slice(-4)} is not an owner (or signed a different transaction)`);
+                } else if (!signed.has(signer)) {
+                    const resp = await authFetch(`/api/proposals/${proposal.id}/signatures`, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ signer, data: imported.data })
+                    });
+                    if (!resp.ok) throw new Error((await resp.json()).error || 'Signature rejected');
+                    signed.add(signer);
+                    added++;
+                }
+            }
+
+            if (added === 0) throw new Error(rejected[0] ?? 'These signatures are already on the proposal');
+            toast.success(`Imported ${added} signature${added === 1 ? '' : 's'} (${signed.size}/${safe.threshold})${rejected.length > 0 ? `, ${rejected.length} rejected` : ''}`, { id: toastId });
+            setImportingId(null);
+            setImportText('');
+            onChanged();
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const runAction = async (proposal: ProposalRecord, action: 'sign' | 'execute' | 'cancel') => {
+        setBusyId(proposal.id);
+        const toastId = toast.loading('Initiating protocol...');
+        try {
+            if (action === 'cancel') {
+                const resp = await authFetch(`/api/proposals/${proposal.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ status: 'CANCELLED' })
+                });
+                if (!resp.ok) throw new Error((await resp.json()).error || 'Update rejected');
+                toast.info('Proposal discarded', { id: toastId });
+                onChanged();
+                return;
+            }
+
+            const provider = await getProvider();
+            const context = {
+                provider,
+                signer: currentUserAddress,
+                safeAddress: safe.address,
+                config,
+                proposal,
+                onStatus: (message: string) => toast.message(message, { id: toastId })
+            };
+
+            if (action === 'sign') {
+                const signature = await signProposal(context);
+                const resp = await authFetch(`/api/proposals/${proposal.id}/signatures`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(signature)
+                });
+                if (!resp.ok) throw new Error((await resp.json()).error || 'Signature rejected');
+                toast.success(`Signature added (${proposal.signatures.length + 1}/${safe.threshold})`, { id: toastId });
+            } else {
+                const result = await executeProposal(context);
+                await authFetch(`/api/proposals/${proposal.id}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ status: 'EXECUTED', executedHash: result.transactionHash })
+                });
+                await recordRecovery({ config, safeAddress: safe.address, transactions: proposal.payload.transactions ?? [], status: 'CONFIRMED', result });
+                toast.success('Funds extracted successfully!', { id: toastId });
+                onExecuted();
+            }
+            onChanged();
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className={styles.section}>
+            <span className={styles.label}>
+                <FileSignature size={12} /> Pending Proposals ({proposals.length})
+            </span>
+            {proposals.map(proposal => {
+                const signers = new Set(proposal.signatures.map(s => s.signer.toLowerCase()));
+                const hasSigned = !!me && signers.has(me);
+                const isReady = signers.size >= safe.threshold;
+                const isBusy = busyId === proposal.id;
+
+                return (
+                    <div key={proposal.id} className={styles.proposal}>
+                        <div className={styles.proposalHeader}>
+                            <span className={styles.description}>{proposal.description || 'Recovery proposal'}</span>
+                            <span className={styles.progress} style={{ color: isReady ? '#22c55e' : '#eab308' }}>
+                                {signers.size}/{safe.threshold}
+                            </span>
+                        </div>
+                        <div className={styles.signers}>
+                            {safe.owners.map(owner => {
+                                const normalizedOwner = owner.toLowerCase();
+                                const signed = signers.has(normalizedOwner);
+                                return (
+                                    <span key={owner} className={styles.signer} style={{ color: signed ? '#22c55e' : '#71717a' }}>
+                                        {signed ? <CheckCircle2 size={12} /> : <Circle size={12} />}
+                                        {identityName(knownOwners[normalizedOwner]) || `${owner.slice(0, 6)}...${owner.slice(-4)}`}
+                                    </span>
+                                );
+                            })}
+                        </div>
+                        {canOperate && proposal.kind === 'SAFE_TX' && (
+                            <div className={styles.offline}>
+                                <span className={styles.offlineLabel}>Offline</span>
+                                <button onClick={() => exportProposal(proposal, 'eip712')} className={styles.ghostBtn} title="EIP-712 SafeTx payload for external signers">
+                                    <Download size={12} /> EIP-712
+                                </button>
+                                <button onClick={() => exportProposal(proposal, 'txBuilder')} className={styles.ghostBtn} title="Safe{Wallet} Transaction Builder batch">
+                                    <Download size={12} /> Tx Builder
+                                </button>
+                                <button onClick={() => { setImportingId(importingId === proposal.id ? null : proposal.id); setImportText(''); }} className={styles.ghostBtn}>
+                                    <Upload size={12} /> Import signatures
+                                </button>
+                            </div>
+                        )}
+                        {importingId === proposal.id && (
+                            <div className={styles.importBox}>
+                                <textarea
+                                    value={importText}
+                                    onChange={e => setImportText(e.target.value)}
+                                    placeholder="Paste 0x signatures (one per line or concatenated) or signed JSON"
+                                    rows={3}
+                                    className={styles.importInput}
+                                />
+                                <div className={styles.buttons}>
+                                    <input type="file" accept=".json,.txt" onChange={e => loadImportFile(e.target.files?.[0])} className={styles.fileInput} />
+                                    <button onClick={() => importSignatures(proposal)} disabled={isBusy || !importText.trim()} className={styles.signBtn}>
+                                        <Upload size={14} /> Add
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        {canOperate && <div className={styles.buttons}>
+                            {proposal.proposer === me && (
+                                <button onClick={() => runAction(proposal, 'cancel')} disabled={isBusy} className={styles.ghostBtn}>
+                                    <XCircle size={14} /> Discard
+                                </button>
+                            )}
+                            {safe.isOwner && !hasSigned && (
+                                <button onClick={() => runAction(proposal, 'sign')} disabled={isBusy} className={styles.signBtn}>
+                                    <PenLine size={14} /> Sign
+                                </button>
+                            )}
+                            {isReady && (
+                                <button onClick={() => runAction(proposal, 'execute')} disabled={isBusy} className={styles.executeBtn}>
+                                    <Rocket size={14} /> Execute
+                                </button>
+                            )}
+                        </div>}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
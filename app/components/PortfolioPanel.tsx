@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Globe, X, RefreshCw, ArrowRight, Loader2 } from 'lucide-react';
+import { holdsRealFunds, type ChainConfig } from '@/lib/chains';
+import type { SafeData } from './SafeCard';
+import styles from './PortfolioPanel.module.css';
+
+type ChainState = {
+    status: 'loading' | 'done' | 'error';
+    safes: SafeData[];
+    error?: string;
+};
+
+interface Props {
+    chains: ChainConfig[];
+    loadChain: (chainId: number) => Promise<SafeData[]>;
+    onSelectChain: (chainId: number) => void;
+    onClose: () => void;
+}
+
+const sumUSDC = (safes: SafeData[]) => safes.reduce((acc, safe) => acc + parseFloat(safe.balanceUSDC), 0);
+const formatUSD = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const loadingState = (chains: ChainConfig[]): Record<number, ChainState> =>
+    Object.fromEntries(chains.map(c => [c.id, { status: 'loading', safes: [] }]));
+
+export default function PortfolioPanel({ chains, loadChain, onSelectChain, onClose }: Props) {
+    const [byChain, setByChain] = useState<Record<number, ChainState>>(() => loadingState(chains));
+
+    // Every chain is scanned independently so one slow or failing RPC doesn't hold up the rest.
+    const scanChains = useCallback(() => {
+        chains.forEach(chain => {
+            loadChain(chain.id)
+                .then(safes => setByChain(prev => ({ ...prev, [chain.id]: { status: 'done', safes } })))
+                .catch(e => {
+                    console.error(`[Portfolio] Failed to scan ${chain.name}`, e);
+                    const message = e instanceof Error ? e.message : String(e);
+                    setByChain(prev => ({ ...prev, [chain.id]: { status: 'error', safes: [], error: message } }));
+                });
+        });
+    }, [chains, loadChain]);
+
+    useEffect(() => {
+        scanChains();
+    }, [scanChains]);
+
+    const handleRescan = () => {
+        setByChain(loadingState(chains));
+        scanChains();
+    };
+
+    // Mainnets make up the dollar total; testnets and the sandbox fork are summed apart.
+    const [grandTotal, testTotal] = useMemo(() => chains.reduce(
+        ([real, test], chain) => {
+            const sum = sumUSDC(byChain[chain.id]?.safes ?? []);
+            return holdsRealFunds(chain) ? [real + sum, test] : [real, test + sum];
+        },
+        [0, 0]
+    ), [byChain, chains]);
+    const hasTestChains = chains.some(chain => !holdsRealFunds(chain));
+
+    // One row per Safe address, with its deployment on each chain side by side.
+    const grouped = useMemo(() => {
+        const rows = new Map<string, { address: string; label: string | null; perChain: Record<number, SafeData>; total: number }>();
+        for (const chain of chains) {
+            for (const safe of byChain[chain.id]?.safes ?? []) {
+                const key = safe.address.toLowerCase();
+                const row = rows.get(key) ?? { address: safe.address, label: null, perChain: {}, total: 0 };
+                row.perChain[chain.id] = safe;
+                if (holdsRealFunds(chain)) row.total += parseFloat(safe.balanceUSDC);
+                row.label = row.label || safe.tracked?.label || null;
+                rows.set(key, row);
+            }
+        }
+        return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+    }, [byChain, chains]);
+
+    const isLoading = Object.values(byChain).some(state => state.status === 'loading');
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <Globe size={18} color="#a855f7" />
+                    <span className={styles.title}>Cross-Chain Portfolio</span>
+                </div>
+                <div className={styles.headerActions}>
+                    <button onClick={handleRescan} disabled={isLoading} className={styles.iconBtn} title="Rescan all networks"><RefreshCw size={14} /></button>
+                    <button onClick={onClose} className={styles.iconBtn}><X size={16} /></button>
+                </div>
+            </div>
+
+            <div className={styles.totals}>
+                <div className={styles.totalCard}>
+                    <span className={styles.totalLabel}>All Mainnets</span>
+                    <span className={styles.totalValue}>{formatUSD(grandTotal)}</span>
+                </div>
+                {hasTestChains && (
+                    <div className={styles.totalCard}>
+                        <span className={styles.totalLabel}>Test Networks</span>
+                        <span className={styles.totalValue}>{formatUSD(testTotal)}</span>
+                    </div>
+                )}
+                {chains.map(chain => {
+                    const state = byChain[chain.id];
+                    return (
+                        <button key={chain.id} onClick={() => onSelectChain(chain.id)} className={styles.chainCard} title={`Open ${chain.name}`}>
+                            <span className={styles.totalLabel}>{chain.label}</span>
+                            {state?.status === 'loading' ? (
+                                <Loader2 size={16} className="spin-anim" />
+                            ) : state?.status === 'error' ? (
+                                <span className={styles.error} title={state.error}>RPC error</span>
+                            ) : (
+                                <span className={styles.chainValue}>{formatUSD(sumUSDC(state?.safes ?? []))}</span>
+                            )}
+                            <span className={styles.chainMeta}>
+                                {state?.safes.length ?? 0} vault{state?.safes.length === 1 ? '' : 's'} <ArrowRight size={12} />
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>Vault</th>
+                            {chains.map(chain => <th key={chain.id}>{chain.label}</th>)}
+                            <th title="Mainnets only">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {grouped.length === 0 ? (
+                            <tr><td colSpan={chains.length + 2} className={styles.empty}>{isLoading ? 'Scanning networks...' : 'No tracked vaults on any network'}</td></tr>
+                        ) : grouped.map(row => (
+                            <tr key={row.address}>
+                                <td>
+                                    <span className={styles.mono}>{row.address.slice(0, 6)}...{row.address.slice(-4)}</span>
+                                    {row.label && <span className={styles.vaultLabel}>{row.label}</span>}
+                                </td>
+                                {chains.map(chain => {
+                                    const safe = row.perChain[chain.id];
+                                    return <td key={chain.id} className={styles.mono}>{safe ? `${safe.balanceUSDC} USDC` : '—'}</td>;
+                                })}
+                                <td className={styles.mono}>{formatUSD(row.total)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, X, RefreshCw, Loader2 } from 'lucide-react';
+import { authFetch } from '@/lib/authFetch';
+import { recoveredPercent, type ChainProgress, type ProgressPoint } from '@/lib/progress';
+import type { ChainConfig } from '@/lib/chains';
+import { toPolyline } from './Sparkline';
+import styles from './ProgressPanel.module.css';
+
+type Report = {
+    days: number;
+    chains: ChainProgress[];
+};
+
+interface Props {
+    chains: ChainConfig[];
+    onSelectChain: (chainId: number) => void;
+    onClose: () => void;
+}
+
+const RANGES = [7, 30, 90];
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const formatUSD = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}%`;
+
+// Chains share the same days, so the all-network series is a point-by-point sum.
+const sumSeries = (chains: ChainProgress[]): ProgressPoint[] => {
+    if (chains.length === 0) return [];
+    return chains[0].series.map((point, i) => ({
+        date: point.date,
+        recoverable: chains.reduce((acc, c) => acc + (c.series[i]?.recoverable ?? 0), 0),
+        recovered: chains.reduce((acc, c) => acc + (c.series[i]?.recovered ?? 0), 0)
+    }));
+};
+
+function ProgressChart({ series }: { series: ProgressPoint[] }) {
+    const max = Math.max(...series.map(p => Math.max(p.recoverable, p.recovered)), 1);
+    const line = (values: number[]) => toPolyline(values, CHART_WIDTH, CHART_HEIGHT, max, 0);
+    return (
+        <div className={styles.chart}>
+            <svg viewBox={`0 -4 ${CHART_WIDTH} ${CHART_HEIGHT + 8}`} preserveAspectRatio="none" className={styles.chartSvg}>
+                <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="#3f3f46" />
+                <polyline points={line(series.map(p => p.recoverable))} fill="none" stroke="#a855f7" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                <polyline points={line(series.map(p => p.recovered))} fill="none" stroke="#22c55e" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className={styles.chartAxis}>
+                <span>{series[0]?.date}</span>
+                <span>max {formatUSD(max)}</span>
+                <span>{series[series.length - 1]?.date}</span>
+            </div>
+            <div className={styles.legend}>
+                <span><i style={{ background: '#a855f7' }} /> Still recoverable</span>
+                <span><i style={{ background: '#22c55e' }} /> Recovered</span>
+            </div>
+        </div>
+    );
+}
+
+export default function ProgressPanel({ chains, onSelectChain, onClose }: Props) {
+    const [days, setDays] = useState(30);
+    const [report, setReport] = useState<Report | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadProgress = useCallback(() => {
+        authFetch(`/api/progress?days=${days}`)
+            .then(async resp => {
+                const data = await resp.json();
+                if (!resp.ok) throw new Error(data.error || 'Progress request failed');
+                setReport(data);
+                setError(null);
+            })
+            .catch(e => {
+                console.error('[Progress] Failed to load', e);
+                setError(e instanceof Error ? e.message : String(e));
+            });
+    }, [days]);
+
+    useEffect(() => {
+        loadProgress();
+    }, [loadProgress]);
+
+    const handleRefresh = () => {
+        setReport(null);
+        loadProgress();
+    };
+
+    const isLoading = !error && (!report || report.days !== days);
+    const series = useMemo(() => sumSeries(report?.chains ?? []), [report]);
+    const latest = series[series.length - 1];
+    const hasHistory = series.some(p => p.recoverable > 0 || p.recovered > 0);
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <TrendingUp size={18} color="#a855f7" />
+                    <span className={styles.title}>Recovery Progress</span>
+                </div>
+                <div className={styles.headerActions}>
+                    <select value={days} onChange={e => setDays(Number(e.target.value))} className={styles.input}>
+                        {RANGES.map(range => <option key={range} value={range}>Last {range} days</option>)}
+                    </select>
+                    <button onClick={handleRefresh} disabled={isLoading} className={styles.iconBtn} title="Reload"><RefreshCw size={14} /></button>
+                    <button onClick={onClose} className={styles.iconBtn}><X size={16} /></button>
+                </div>
+            </div>
+
+            {error ? (
+                <div className={styles.error}>{error}</div>
+            ) : isLoading || !report ? (
+                <div className={styles.empty}><Loader2 size={16} className="spin-anim" /></div>
+            ) : (
+                <>
+                    <div className={styles.totals}>
+                        <div className={styles.totalCard}>
+                            <span className={styles.totalLabel}>Fondu Funds Recovered</span>
+                            <span className={styles.totalValue}>{formatPercent(latest ? recoveredPercent(latest.recovered, latest.recoverable) : null)}</span>
+                            <span className={styles.chainMeta}>{formatUSD(latest?.recovered ?? 0)} of {formatUSD((latest?.recovered ?? 0) + (latest?.recoverable ?? 0))}</span>
+                        </div>
+                        {report.chains.map(progress => {
+                            const chain = chains.find(c => c.id === progress.chainId);
+                            return (
+                                <button key={progress.chainId} onClick={() => onSelectChain(progress.chainId)} className={styles.chainCard} title={`Open ${chain?.name ?? progress.chainId}`}>
+                                    <span className={styles.totalLabel}>{chain?.label ?? progress.chainId}</span>
+                                    <span className={styles.chainValue}>{formatPercent(progress.percent)}</span>
+                                    <div className={styles.bar}><div className={styles.barFill} style={{ width: `${progress.percent ?? 0}%` }} /></div>
+                                    <span className={styles.chainMeta}>{formatUSD(progress.recovered)} of {formatUSD(progress.recovered + progress.recoverable)} {progress.symbol}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {hasHistory ? (
+                        <ProgressChart series={series} />
+                    ) : (
+                        <div className={styles.empty}>No balance snapshots yet. History starts once the balance monitor has run.</div>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+}
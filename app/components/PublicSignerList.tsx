@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePrivy } from '@privy-io/react-auth';
+import { authFetch } from '@/lib/authFetch';
+import type { OwnerIdentity } from '@/lib/identities';
+import SignerList from './SignerList';
+
+interface Props {
+    chainId: number;
+    owners: string[];
+    threshold: number;
+}
+
+// Signer list for the public vault page. The server render only has addresses; signed-in team
+// members get the same identities /api/users/resolve gives them on the dashboard.
+export default function PublicSignerList({ chainId, owners, threshold }: Props) {
+    const { ready, authenticated } = usePrivy();
+    const [identities, setIdentities] = useState<Record<string, OwnerIdentity>>({});
+
+    useEffect(() => {
+        if (!ready || !authenticated) return;
+        authFetch('/api/users/resolve', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chainId, addresses: owners })
+        })
+            .then(resp => resp.ok ? resp.json() : null)
+            .then(result => { if (result?.identities) setIdentities(result.identities); })
+            .catch(e => console.warn('[PublicSignerList] Failed to resolve identities', e));
+    }, [ready, authenticated, chainId, owners]);
+
+    return (
+        <SignerList
+            owners={owners}
+            threshold={threshold}
+            identities={authenticated ? identities : {}}
+            canEdit={false}
+            onIdentityChanged={() => {}}
+        />
+    );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { BookUser, AtSign, ShieldAlert, Loader2 } from 'lucide-react';
+import { getAddress, isAddress } from 'viem';
+import { findEntry, type AddressBookRecord } from '@/lib/addressBook';
+import { lookupName, looksLikeName, resolveName } from '@/lib/names';
+import { getReadClient } from '@/lib/readClients';
+import styles from './RecipientInput.module.css';
+
+interface Props {
+    value: string;
+    onChange: (value: string) => void;
+    chainId: number;
+    addressBook: AddressBookRecord[];
+    enforceAddressBook: boolean;
+    inputClassName: string;
+    placeholder?: string;
+}
+
+const LOOKUP_DELAY_MS = 400;
+
+// Destination field with address book autocomplete, ENS / Basename resolution and the allow-list warning.
+export default function RecipientInput({ value, onChange, chainId, addressBook, enforceAddressBook, inputClassName, placeholder = 'Destination Address (0x...) or name.eth' }: Props) {
+    const listId = useId();
+    // Lookups are keyed by input so a stale answer never shows against a newer value.
+    const [names, setNames] = useState<Record<string, string | null>>({});
+    const [resolved, setResolved] = useState<Record<string, string | null>>({});
+
+    const trimmed = value.trim();
+    const key = trimmed.toLowerCase();
+    const isValidAddress = isAddress(trimmed);
+    const isName = !isValidAddress && looksLikeName(trimmed);
+
+    useEffect(() => {
+        if (!(isValidAddress && !(key in names)) && !(isName && !(key in resolved))) return;
+        const timer = setTimeout(() => {
+            if (isValidAddress) {
+                lookupName(getReadClient(chainId), trimmed, chainId).then(name => setNames(prev => ({ ...prev, [key]: name })));
+            } else {
+                resolveName(trimmed).then(address => setResolved(prev => ({ ...prev, [key]: address })));
+            }
+        }, LOOKUP_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [chainId, isName, isValidAddress, key, names, resolved, trimmed]);
+
+    const entry = isValidAddress ? findEntry(addressBook, trimmed) : null;
+    const resolvedAddress = resolved[key];
+
+    return (
+        <div className={styles.wrapper}>
+            <input
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                list={listId}
+                placeholder={placeholder}
+                className={inputClassName}
+            />
+            <datalist id={listId}>
+                {addressBook.map(e => <option key={e.id} value={getAddress(e.address)} label={e.label} />)}
+            </datalist>
+
+            {isValidAddress && (
+                <div className={styles.hint}>
+                    <span className={styles.checksummed}>{getAddress(trimmed)}</span>
+                    {entry && <span className={styles.label}><BookUser size={12} /> {entry.label}</span>}
+                    {names[key] && <span className={styles.name}><AtSign size={12} /> {names[key]}</span>}
+                </div>
+            )}
+            {isValidAddress && enforceAddressBook && !entry && (
+                <div className={styles.blocked}><ShieldAlert size={12} /> Not in the address book. Transfers to this address are blocked.</div>
+            )}
+            {isName && (
+                <div className={styles.hint}>
+                    {!(key in resolved) ? (
+                        <span className={styles.name}><Loader2 size={12} className="spin-anim" /> Resolving {trimmed}...</span>
+                    ) : resolvedAddress ? (
+                        <button onClick={() => onChange(getAddress(resolvedAddress))} className={styles.useBtn}>
+                            Use {resolvedAddress.slice(0, 6)}...{resolvedAddress.slice(-4)}
+                        </button>
+                    ) : (
+                        <span className={styles.blockedText}>No address found for {trimmed}</span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, X, Download, RefreshCw } from 'lucide-react';
+import { formatUnits } from 'viem';
+import type { RecoveryRecord } from '@/lib/recoveries';
+import { authFetch } from '@/lib/authFetch';
+import styles from './RecoveryHistory.module.css';
+
+type ChainSummary = { name: string; explorer: string };
+
+interface Props {
+    chains: Record<number, ChainSummary>;
+    safeAddresses: string[];
+    onClose: () => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+    CONFIRMED: '#22c55e',
+    PENDING: '#eab308',
+    FAILED: '#ef4444'
+};
+
+export default function RecoveryHistory({ chains, safeAddresses, onClose }: Props) {
+    const [chainFilter, setChainFilter] = useState('');
+    const [safeFilter, setSafeFilter] = useState('');
+    const [userFilter, setUserFilter] = useState('');
+    const [records, setRecords] = useState<RecoveryRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const buildQuery = useCallback((format?: 'csv' | 'json') => {
+        const params = new URLSearchParams();
+        if (chainFilter) params.set('chainId', chainFilter);
+        if (safeFilter.trim()) params.set('safe', safeFilter.trim());
+        if (userFilter.trim()) params.set('user', userFilter.trim());
+        if (format) params.set('format', format);
+        return `/api/recoveries?${params.toString()}`;
+    }, [chainFilter, safeFilter, userFilter]);
+
+    const loadRecords = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const resp = await authFetch(buildQuery());
+            const data = await resp.json();
+            if (data.recoveries) setRecords(data.recoveries);
+        } catch (e) {
+            console.error('[History] Failed to load ledger', e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [buildQuery]);
+
+    // The export routes need the session header, so the file is fetched and handed to the browser as a blob.
+    const downloadExport = async (format: 'csv' | 'json') => {
+        try {
+            const resp = await authFetch(buildQuery(format));
+            if (!resp.ok) throw new Error((await resp.json()).error || 'Export failed');
+            const url = URL.createObjectURL(await resp.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `recoveries.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error('[History] Export failed', e);
+        }
+    };
+
+    useEffect(() => {
+        const timer = setTimeout(loadRecords, 300);
+        return () => clearTimeout(timer);
+    }, [loadRecords]);
+
+    return (
+        <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className={styles.panel}>
+            <div className={styles.header}>
+                <div className={styles.titleRow}>
+                    <History size={18} color="#a855f7" />
+                    <span className={styles.title}>Extraction Ledger</span>
+                </div>
+                <div className={styles.headerActions}>
+                    <button onClick={() => downloadExport('csv')} className={styles.exportBtn}><Download size={14} /> CSV</button>
+                    <button onClick={() => downloadExport('json')} className={styles.exportBtn}><Download size={14} /> JSON</button>
+                    <button onClick={loadRecords} className={styles.iconBtn} title="Refresh"><RefreshCw size={14} /></button>
+                    <button onClick={onClose} className={styles.iconBtn}><X size={16} /></button>
+                </div>
+            </div>
+
+            <div className={styles.filters}>
+                <select value={chainFilter} onChange={e => setChainFilter(e.target.value)} className={styles.input}>
+                    <option value="">All networks</option>
+                    {Object.entries(chains).map(([id, chain]) => <option key={id} value={id}>{chain.name}</option>)}
+                </select>
+                <input list="ledger-safes" value={safeFilter} onChange={e => setSafeFilter(e.target.value)} placeholder="Vault (0x...)" className={styles.input} />
+                <datalist id="ledger-safes">
+                    {safeAddresses.map(a => <option key={a} value={a} />)}
+                </datalist>
+                <input value={userFilter} onChange={e => setUserFilter(e.target.value)} placeholder="Executor (email or 0x...)" className={styles.input} />
+            </div>
+
+            <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                    <thead>
+                        <tr>
+                            <th>When</th>
+                            <th>Network</th>
+                            <th>Vault</th>
+                            <th>Amount</th>
+                            <th>Destination</th>
+                            <th>Executor</th>
+                            <th>Status</th>
+                            <th>Tx</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {records.length === 0 ? (
+                            <tr><td colSpan={8} className={styles.empty}>{isLoading ? 'Loading ledger...' : 'No extractions recorded'}</td></tr>
+                        ) : records.map(r => {
+                            const chain = chains[r.chainId];
+                            return (
+                                <tr key={r.id}>
+                                    <td>{new Date(r.createdAt).toLocaleString()}</td>
+                                    <td>{chain?.name ?? r.chainId}</td>
+                                    <td className={styles.mono}>{r.safeAddress.slice(0, 6)}...{r.safeAddress.slice(-4)}</td>
+                                    <td className={styles.mono}>{formatUnits(BigInt(r.amount), r.decimals)} {r.tokenSymbol}</td>
+                                    <td className={styles.mono}>{r.destination.slice(0, 6)}...{r.destination.slice(-4)}</td>
+                                    <td>{r.executor?.email || r.executor?.name || (r.executor ? `${r.executor.walletAddress.slice(0, 6)}...` : '—')}</td>
+                                    <td style={{ color: STATUS_COLORS[r.status] }}>{r.status}</td>
+                                    <td className={styles.mono}>
+                                        {r.txHash && chain ? (
+                                            <a href={`${chain.explorer}/tx/${r.txHash}`} target="_blank" rel="noreferrer" className={styles.link}>{r.txHash.slice(0, 10)}...</a>
+                                        ) : '—'}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </motion.div>
+    );
+}
@@ -4,44 +4,148 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'sonner';
 import {
-    Zap, Copy, Trash2, Rocket, Shield, Check, Users, User
+    Zap, Copy, Trash2, Rocket, Shield, Check, Users, Layers, Pencil, X, ShieldCheck, AlertTriangle, ArrowLeft, Plus, KeyRound, FileDown, Share2
 } from 'lucide-react';
-import Safe from '@safe-global/protocol-kit';
-import { Safe4337Pack } from '@safe-global/relay-kit';
 import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
-import { parseUnits, encodeFunctionData, type EIP1193Provider } from 'viem';
+import { parseUnits, formatUnits, encodeFunctionData, createPublicClient, custom, type EIP1193Provider, type PublicClient } from 'viem';
+import { discoverBalances, buildSweepTransactions, type AssetBalance } from '@/lib/sweep';
+import { executeSafeTransactions, proposeSafeTransactions, simulateSafeTransactions, createOfflineSafeTransaction, isUserRejection, type ExecutionParams } from '@/lib/safeExecution';
+import { buildOwnerChange, describeOwnerChange, type OwnerChange } from '@/lib/ownerManagement';
+import { buildGaslessUpgrade, isGaslessCompatible, MIN_GASLESS_SAFE_VERSION } from '@/lib/gaslessUpgrade';
+import { runPreflight, validateTransferInputs, validateSplitTransfers, describeError, type PreflightReport, type TransferSplit } from '@/lib/preflight';
+import { recordRecovery } from '@/lib/recoveries';
+import { downloadSafeTxTypedData } from '@/lib/offlineSigning';
+import { authFetch } from '@/lib/authFetch';
+import { hasRole, type Role } from '@/lib/roles';
+import { isOperationTimeout } from '@/lib/operations';
+import type { ProposalRecord } from '@/lib/proposals';
+import type { TrackedSafeRecord } from '@/lib/trackedSafes';
+import type { ChainConfig } from '@/lib/chains';
+import { findEntry, type AddressBookRecord, type AppSettings } from '@/lib/addressBook';
+import type { OwnerIdentity } from '@/lib/identities';
+import PendingProposals from './PendingProposals';
+import SignerList from './SignerList';
+import OwnerManagementPanel from './OwnerManagementPanel';
+import RecipientInput from './RecipientInput';
+import Sparkline from './Sparkline';
 import styles from './SafeCard.module.css';
 
 // Standard ERC20 Transfer ABI
 const ERC20_ABI = [{ type: 'function', name: 'transfer', stateMutability: 'nonpayable', inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], outputs: [{ type: 'bool' }] }] as const;
 
+// Quick-fill buttons under each amount field, as a share of the vault balance. 100 fills whatever the other destinations leave.
+const AMOUNT_SHORTCUTS = [{ label: '25%', percent: 25 }, { label: '50%', percent: 50 }, { label: 'MAX', percent: 100 }];
+const EMPTY_SPLIT: TransferSplit = { recipient: '', amount: '' };
+
+// A simulated batch waiting for the user's go-ahead.
+type Review = {
+    description: string;
+    transactions: MetaTransactionData[];
+    report: PreflightReport;
+};
+
 export type SafeData = {
     id: string;
     address: string;
     version: string;
     threshold: number;
     owners: string[];
-    balanceUSDC: string;
-    isOwner: boolean;
+    balanceUSDC: string; // Display only; amounts are computed from balanceRaw
+    balanceRaw: bigint; // USDC balance in base units
+    usdcDecimals: number; // From the token's decimals(), not the chain config
+    isOwner: boolean; // The selected signing wallet is an owner
+    ownerWallets: string[]; // Lowercased wallets connected in this session that own the vault
     modules: string[];
     is4337Enabled: boolean;
+    tracked?: TrackedSafeRecord; // Registry entry (label, notes, who added it)
 };
 
 interface Props {
     data: SafeData;
     currentUserAddress: string;
-    config: any;
-    knownOwners: Record<string, string>; // Map of address -> Name/Email
+    config: ChainConfig;
+    knownOwners: Record<string, OwnerIdentity>; // Keyed by lowercased address
+    proposals: ProposalRecord[];
+    addressBook: AddressBookRecord[];
+    settings: AppSettings;
+    role: Role;
+    history?: number[]; // Daily USDC balance from the balance monitor, oldest first
     getProvider: () => Promise<EIP1193Provider>;
     onRemove: (id: string) => void;
+    onProposalsChanged: () => void;
+    onTrackedChanged: (id: string, tracked: TrackedSafeRecord) => void;
+    onRefresh: (id: string) => void;
+    onIdentityChanged: (address: string, identity: OwnerIdentity) => void;
+    onSelectSigner: (address: string) => void;
 }
 
-export default function SafeCard({ data, currentUserAddress, config, knownOwners, getProvider, onRemove }: Props) {
-    const [recipient, setRecipient] = useState('');
-    const [amount, setAmount] = useState('');
+export default function SafeCard({ data, currentUserAddress, config, knownOwners, proposals, addressBook, settings, role, history, getProvider, onRemove, onProposalsChanged, onTrackedChanged, onRefresh, onIdentityChanged, onSelectSigner }: Props) {
+    const [splits, setSplits] = useState<TransferSplit[]>([EMPTY_SPLIT]);
     const [isLoading, setIsLoading] = useState(false);
     const [isExpanded, setIsExpanded] = useState(false);
     const [hasCopied, setHasCopied] = useState(false);
+    const [mode, setMode] = useState<'amount' | 'sweep'>('amount');
+    const [sweepAssets, setSweepAssets] = useState<AssetBalance[] | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [review, setReview] = useState<Review | null>(null);
+    const [isUpgrading, setIsUpgrading] = useState(false);
+    const [showOwners, setShowOwners] = useState(false);
+    const [isChangingOwners, setIsChangingOwners] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [labelInput, setLabelInput] = useState('');
+    const [notesInput, setNotesInput] = useState('');
+
+    // Sweeps go to the first destination only.
+    const recipient = splits[0].recipient;
+    const updateSplit = (index: number, patch: Partial<TransferSplit>) =>
+        setSplits(prev => prev.map((split, i) => i === index ? { ...split, ...patch } : split));
+
+    const parseAmount = (value: string) => {
+        try {
+            return value.trim() ? parseUnits(value.trim(), data.usdcDecimals) : BigInt(0);
+        } catch {
+            return BigInt(0);
+        }
+    };
+    const splitTotal = splits.reduce((acc, split) => acc + parseAmount(split.amount), BigInt(0));
+
+    // Works on the raw balance so MAX leaves no dust behind.
+    const applyShortcut = (index: number, percent: number) => {
+        let raw = data.balanceRaw * BigInt(percent) / BigInt(100);
+        if (percent === 100) {
+            const others = splitTotal - parseAmount(splits[index].amount);
+            raw = data.balanceRaw > others ? data.balanceRaw - others : BigInt(0);
+        }
+        updateSplit(index, { amount: formatUnits(raw, data.usdcDecimals) });
+    };
+
+    const startEditing = () => {
+        setLabelInput(data.tracked?.label ?? '');
+        setNotesInput(data.tracked?.notes ?? '');
+        setIsEditing(true);
+    };
+
+    const saveMetadata = async () => {
+        if (!data.tracked) return;
+        try {
+            const resp = await authFetch(`/api/safes/${data.tracked.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ label: labelInput.trim(), notes: notesInput.trim() })
+            });
+            const result = await resp.json();
+            if (!resp.ok) throw new Error(result.error || 'Update rejected');
+            onTrackedChanged(data.id, result.safe);
+            setIsEditing(false);
+            toast.success('Vault details saved');
+        } catch (e) {
+            console.error(e);
+            toast.error('Failed to save vault details');
+        }
+    };
+
+    const addedBy = data.tracked?.addedBy;
+    const addedByName = addedBy ? (addedBy.email || addedBy.name || `${addedBy.walletAddress.slice(0, 6)}...${addedBy.walletAddress.slice(-4)}`) : null;
 
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text);
@@ -50,91 +154,299 @@ export default function SafeCard({ data, currentUserAddress, config, knownOwners
         toast.success('Coordinates copied');
     };
 
-    const handleTransfer = async () => {
-        if (!recipient || !amount) {
-            toast.error('Target coordinates missing');
-            return;
+    // Public read-only page for this vault; works without an account.
+    const copyShareLink = () => {
+        navigator.clipboard.writeText(`${window.location.origin}/safe/${config.chainObj.id}/${data.address}`);
+        toast.success('Public link copied');
+    };
+
+    const getPublicClient = (provider: EIP1193Provider) =>
+        createPublicClient({ chain: config.chainObj, transport: custom(provider) }) as PublicClient;
+
+    const scanAssets = async () => {
+        setIsScanning(true);
+        try {
+            const provider = await getProvider();
+            setSweepAssets(await discoverBalances(getPublicClient(provider), data.address, config.tokens, config.nativeSymbol));
+        } catch (e) {
+            console.error(e);
+            toast.error('Asset scan failed');
+        } finally {
+            setIsScanning(false);
         }
+    };
 
+    const selectMode = (next: 'amount' | 'sweep') => {
+        setMode(next);
+        setReview(null);
+        if (next === 'sweep' && !sweepAssets && !isScanning) scanAssets();
+    };
+
+    // Viewers only look; operators move funds; admins also curate the registry entry.
+    const canOperate = hasRole(role, 'OPERATOR');
+    const canManage = hasRole(role, 'ADMIN');
+
+    // Safes that need more than one signature get a proposal instead of an immediate execution.
+    const needsProposal = data.threshold > 1;
+
+    // Stores a signed proposal for the co-owners to pick up from their dashboards.
+    const submitProposal = async (description: string, params: ExecutionParams) => {
+        const draft = await proposeSafeTransactions(params);
+        const resp = await authFetch('/api/proposals', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ chainId: config.chainObj.id, safeAddress: data.address, description, ...draft })
+        });
+        if (!resp.ok) throw new Error((await resp.json()).error || 'Proposal rejected');
+        onProposalsChanged();
+    };
+
+    // Pre-flight: `buildTransactions` runs after the provider is ready so it can read fresh
+    // on-chain state, then the batch is simulated and held for review before any signature.
+    const prepareRecovery = async (description: string, buildTransactions: (provider: EIP1193Provider) => Promise<MetaTransactionData[]>) => {
         setIsLoading(true);
-        const toastId = toast.loading('Initiating protocol...');
+        const toastId = toast.loading('Running pre-flight checks...');
 
         try {
             const provider = await getProvider();
-            
-            // Prepare ERC20 transfer data
-            const transferData = encodeFunctionData({
-                abi: ERC20_ABI,
-                functionName: 'transfer',
-                args: [recipient as `0x${string}`, parseUnits(amount, 6)]
+            const transactions = await buildTransactions(provider);
+            const report = await runPreflight({
+                provider,
+                signer: currentUserAddress,
+                safeAddress: data.address,
+                is4337Enabled: data.is4337Enabled,
+                config,
+                transactions,
+                threshold: data.threshold,
+                publicClient: getPublicClient(provider),
+                ledger: config,
+                onStatus: (message: string) => toast.message(message, { id: toastId })
             });
+            setReview({ description, transactions, report });
+            toast.dismiss(toastId);
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setIsLoading(false);
+        }
+    };
 
-            const transactions: MetaTransactionData[] = [{
-                to: config.usdcAddress,
-                value: '0',
-                data: transferData,
-                operation: OperationType.Call,
-            }];
-
-            if (data.is4337Enabled) {
-                // --- GASLESS PATH (Relay Kit) ---
-                toast.message('Signing UserOperation...', { id: toastId });
-                
-                const safe4337Pack = await Safe4337Pack.init({
-                    provider: provider as any,
-                    signer: currentUserAddress,
-                    bundlerUrl: config.bundlerUrl,
-                    options: { safeAddress: data.address },
-                    paymasterOptions: { isSponsored: true, paymasterUrl: config.paymasterUrl }
-                });
-
-                const safeOperation = await safe4337Pack.createTransaction({ transactions });
-                const signedSafeOperation = await safe4337Pack.signSafeOperation(safeOperation);
-                
-                toast.message('Broadcasting...', { id: toastId });
-                const userOpHash = await safe4337Pack.executeTransaction({ executable: signedSafeOperation });
-
-                // Wait for receipt
-                let receipt = null;
-                while (!receipt) {
-                    await new Promise(r => setTimeout(r, 2000));
-                    receipt = await safe4337Pack.getUserOperationReceipt(userOpHash);
-                }
-                
-                toast.success('Funds extracted successfully!', { id: toastId });
+    // Shared signing/execution flow for a batch the user has reviewed.
+    const executeRecovery = async ({ description, transactions }: Review) => {
+        setIsLoading(true);
+        const toastId = toast.loading('Initiating protocol...');
 
+        try {
+            const provider = await getProvider();
+            const params = {
+                provider,
+                signer: currentUserAddress,
+                safeAddress: data.address,
+                is4337Enabled: data.is4337Enabled,
+                config,
+                transactions,
+                description,
+                onStatus: (message: string) => toast.message(message, { id: toastId })
+            };
+
+            if (needsProposal) {
+                await submitProposal(description, params);
+                toast.success(`Proposal signed (1/${data.threshold}). Awaiting co-signers.`, { id: toastId });
             } else {
-                // --- STANDARD PATH (Protocol Kit) ---
-                toast.message('Wallet Signature Required...', { id: toastId });
-                
-                const protocolKit = await Safe.init({ 
-                    provider: provider as any, 
-                    safeAddress: data.address, 
-                    signer: currentUserAddress 
-                });
-
-                const safeTransaction = await protocolKit.createTransaction({ transactions });
-                const signedSafeTx = await protocolKit.signTransaction(safeTransaction);
-                
-                toast.message('Executing...', { id: toastId });
-                await protocolKit.executeTransaction(signedSafeTx);
-                
+                const result = await executeSafeTransactions(params);
+                await recordRecovery({ config, safeAddress: data.address, transactions, status: 'CONFIRMED', result });
                 toast.success('Funds extracted successfully!', { id: toastId });
             }
 
             // Cleanup
-            setAmount('');
-            setRecipient('');
+            setSplits([EMPTY_SPLIT]);
+            setSweepAssets(null);
+            setReview(null);
             setIsExpanded(false);
 
-        } catch (e: any) {
+        } catch (e) {
             console.error(e);
-            toast.error(`Error: ${e.message.slice(0, 30)}...`, { id: toastId });
+            toast.error(describeError(e), { id: toastId });
+            if (!needsProposal && !isUserRejection(e) && !isOperationTimeout(e)) {
+                await recordRecovery({ config, safeAddress: data.address, transactions, status: 'FAILED' });
+            }
         } finally {
             setIsLoading(false);
         }
     };
 
+    // Saves the reviewed batch as an unsigned SafeTx proposal and downloads its EIP-712 payload, for
+    // owners who sign outside the app. Their signatures are imported from the pending proposal.
+    const exportForOfflineSigning = async ({ description, transactions }: Review) => {
+        setIsLoading(true);
+        const toastId = toast.loading('Building offline transaction...');
+
+        try {
+            const provider = await getProvider();
+            const draft = await createOfflineSafeTransaction({
+                provider,
+                signer: currentUserAddress,
+                safeAddress: data.address,
+                is4337Enabled: false,
+                config,
+                transactions,
+                onStatus: (message: string) => toast.message(message, { id: toastId })
+            });
+            const resp = await authFetch('/api/proposals', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ chainId: config.chainObj.id, safeAddress: data.address, description, ...draft })
+            });
+            const result = await resp.json();
+            if (!resp.ok) throw new Error(result.error || 'Proposal rejected');
+            downloadSafeTxTypedData(result.proposal, data.version);
+            toast.success(`Offline transaction saved (nonce ${draft.nonce}). Import signatures under Pending Proposals.`, { id: toastId });
+            onProposalsChanged();
+            setReview(null);
+            setIsExpanded(false);
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const canUpgrade = canOperate && data.isOwner && !data.is4337Enabled && isGaslessCompatible(data.version);
+
+    // Enables the 4337 module (and its fallback handler) through a regular Safe transaction,
+    // then re-reads the Safe so later recoveries take the Safe4337Pack path.
+    const upgradeToGasless = async () => {
+        setIsUpgrading(true);
+        const toastId = toast.loading('Preparing gasless upgrade...');
+
+        try {
+            const provider = await getProvider();
+            const transactions = await buildGaslessUpgrade(getPublicClient(provider), data.address, config.moduleAddress);
+            if (transactions.length === 0) {
+                toast.success('Gasless module already active', { id: toastId });
+                onRefresh(data.id);
+                return;
+            }
+            const params = {
+                provider,
+                signer: currentUserAddress,
+                safeAddress: data.address,
+                is4337Enabled: false,
+                config,
+                transactions,
+                description: 'Enable gasless (ERC-4337) module',
+                onStatus: (message: string) => toast.message(message, { id: toastId })
+            };
+
+            if (needsProposal) {
+                await submitProposal(params.description, params);
+                toast.success(`Upgrade proposed (1/${data.threshold}). Awaiting co-signers.`, { id: toastId });
+            } else {
+                await executeSafeTransactions(params);
+                toast.success('Gasless mode enabled', { id: toastId });
+                onRefresh(data.id);
+            }
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setIsUpgrading(false);
+        }
+    };
+
+    // Owner rotation changes who controls the vault, so it is limited to admins who are also signers.
+    const canManageOwners = canManage && data.isOwner;
+
+    // Simulated like any other batch, then executed (or proposed) through the vault's usual path.
+    const submitOwnerChange = async (change: OwnerChange) => {
+        setIsChangingOwners(true);
+        const toastId = toast.loading('Checking owner change...');
+
+        try {
+            const provider = await getProvider();
+            const params = {
+                provider,
+                signer: currentUserAddress,
+                safeAddress: data.address,
+                is4337Enabled: data.is4337Enabled,
+                config,
+                transactions: [buildOwnerChange(data.address, data.owners, change)],
+                description: describeOwnerChange(change),
+                onStatus: (message: string) => toast.message(message, { id: toastId })
+            };
+            await simulateSafeTransactions({ ...params, threshold: data.threshold });
+
+            if (needsProposal) {
+                await submitProposal(params.description, params);
+                toast.success(`Owner change proposed (1/${data.threshold}). Awaiting co-signers.`, { id: toastId });
+            } else {
+                await executeSafeTransactions(params);
+                toast.success('Vault owners updated', { id: toastId });
+                onRefresh(data.id);
+            }
+            setShowOwners(false);
+        } catch (e) {
+            console.error(e);
+            toast.error(describeError(e), { id: toastId });
+        } finally {
+            setIsChangingOwners(false);
+        }
+    };
+
+    const allowList = settings.enforceAddressBook ? addressBook.map(e => e.address) : undefined;
+
+    const handleTransfer = async () => {
+        if (splits.some(split => !split.recipient || !split.amount)) {
+            toast.error('Target coordinates missing');
+            return;
+        }
+        const errors = validateSplitTransfers({ splits, safeAddress: data.address, decimals: data.usdcDecimals, balance: data.balanceRaw, allowList });
+        if (errors.length > 0) {
+            toast.error(errors[0]);
+            return;
+        }
+
+        const description = splits.length === 1
+            ? `Transfer ${splits[0].amount} USDC to ${splits[0].recipient}`
+            : `Transfer ${formatUnits(splitTotal, data.usdcDecimals)} USDC to ${splits.length} destinations`;
+
+        // One ERC20 transfer per destination, executed as a single batch.
+        await prepareRecovery(description, async () => splits.map(split => ({
+            to: config.usdcAddress,
+            value: '0',
+            data: encodeFunctionData({
+                abi: ERC20_ABI,
+                functionName: 'transfer',
+                args: [split.recipient as `0x${string}`, parseUnits(split.amount.trim(), data.usdcDecimals)]
+            }),
+            operation: OperationType.Call,
+        })));
+    };
+
+    const handleSweep = async () => {
+        if (!recipient) {
+            toast.error('Target coordinates missing');
+            return;
+        }
+        const errors = validateTransferInputs({ recipient, safeAddress: data.address, allowList });
+        if (errors.length > 0) {
+            toast.error(errors[0]);
+            return;
+        }
+
+        // Native ETH can be drained in full on both paths: the 4337 UserOperation is
+        // sponsored by the paymaster and the classic execTransaction is paid by the signer,
+        // so the Safe never has to keep any ETH back for gas.
+        await prepareRecovery(`Sweep all assets to ${recipient}`, async (provider) => {
+            const assets = await discoverBalances(getPublicClient(provider), data.address, config.tokens, config.nativeSymbol);
+            setSweepAssets(assets);
+            if (assets.length === 0) throw new Error('Nothing left to recover');
+            return buildSweepTransactions(assets, recipient);
+        });
+    };
+
     return (
         <motion.div
             layout
@@ -150,12 +462,22 @@ export default function SafeCard({ data, currentUserAddress, config, knownOwners
                     </div>
                     <div className={styles.info}>
                         <div className={styles.titleRow}>
-                            <span className={styles.title}>Asset Vault</span>
+                            <span className={styles.title}>{data.tracked?.label || 'Asset Vault'}</span>
                             {data.is4337Enabled &&
                                 <span className={styles.badge} style={{ background: 'rgba(168, 85, 247, 0.2)', color: '#d8b4fe' }}>
                                     Gasless
                                 </span>
                             }
+                            {canUpgrade && (
+                                <button onClick={upgradeToGasless} disabled={isUpgrading || isLoading} className={styles.upgradeBtn} title="Enable the Safe 4337 module so recoveries are sponsored">
+                                    <Zap size={10} /> {isUpgrading ? 'Upgrading...' : 'Upgrade to gasless'}
+                                </button>
+                            )}
+                            {data.isOwner && !data.is4337Enabled && !canUpgrade && (
+                                <span className={styles.badge} style={{ background: '#27272a', color: '#71717a' }} title={`Safe v${data.version} cannot run the 4337 module (needs v${MIN_GASLESS_SAFE_VERSION} or later)`}>
+                                    Classic v{data.version}
+                                </span>
+                            )}
                         </div>
                         <button onClick={() => copyToClipboard(data.address)} className={styles.copyBtn}>
                             {data.address.slice(0, 6)}...{data.address.slice(-4)}
@@ -163,61 +485,99 @@ export default function SafeCard({ data, currentUserAddress, config, knownOwners
                         </button>
                     </div>
                 </div>
-                <button onClick={() => onRemove(data.id)} className={styles.removeBtn}>
-                    <Trash2 size={16} />
-                </button>
+                <div className={styles.headerActions}>
+                    {data.tracked && (
+                        <button onClick={copyShareLink} className={styles.removeBtn} title="Copy public read-only link">
+                            <Share2 size={16} />
+                        </button>
+                    )}
+                    {canManageOwners && (
+                        <button onClick={() => setShowOwners(!showOwners)} className={styles.removeBtn} title="Manage signers">
+                            <KeyRound size={16} />
+                        </button>
+                    )}
+                    {canManage && data.tracked && (
+                        <button onClick={isEditing ? () => setIsEditing(false) : startEditing} className={styles.removeBtn} title="Edit label & notes">
+                            {isEditing ? <X size={16} /> : <Pencil size={16} />}
+                        </button>
+                    )}
+                    {canManage && (
+                        <button onClick={() => onRemove(data.id)} className={styles.removeBtn}>
+                            <Trash2 size={16} />
+                        </button>
+                    )}
+                </div>
             </div>
 
+            {/* Registry Metadata */}
+            {isEditing ? (
+                <div className={styles.metaSection}>
+                    <input value={labelInput} onChange={e => setLabelInput(e.target.value)} placeholder="Label (e.g. Treasury)" className={styles.input} />
+                    <textarea value={notesInput} onChange={e => setNotesInput(e.target.value)} placeholder="Notes" rows={2} className={styles.input} />
+                    <button onClick={saveMetadata} className={styles.metaSaveBtn}>Save</button>
+                </div>
+            ) : (data.tracked?.notes || addedByName) && (
+                <div className={styles.metaSection}>
+                    {data.tracked?.notes && <span className={styles.metaNotes}>{data.tracked.notes}</span>}
+                    {data.tracked && (
+                        <span className={styles.metaFooter}>
+                            Added {addedByName ? `by ${addedByName} ` : ''}on {new Date(data.tracked.createdAt).toLocaleDateString()}
+                        </span>
+                    )}
+                </div>
+            )}
+
             {/* Balance */}
             <div className={styles.balanceSection}>
                 <span className={styles.label}>Detected Value</span>
-                <div>
-                    <span className={styles.value}>{data.balanceUSDC}</span>
-                    <span className={styles.currency}>USDC</span>
+                <div className={styles.balanceRow}>
+                    <div>
+                        <span className={styles.value}>{data.balanceUSDC}</span>
+                        <span className={styles.currency}>USDC</span>
+                    </div>
+                    {history && history.length > 1 && (
+                        <span className={styles.sparkline} title={`Last ${history.length} days`}>
+                            <Sparkline values={history} />
+                        </span>
+                    )}
                 </div>
             </div>
 
-            {/* NEW: Owner List Area */}
-            <div style={{ padding: '0 20px 20px' }}>
-                <span className={styles.label} style={{ marginBottom: 8, display: 'block' }}>
-                    Identified Signers ({data.threshold}/{data.owners.length})
-                </span>
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-                    {data.owners.map(owner => {
-                        const normalizedOwner = owner.toLowerCase();
-                        const knownIdentity = knownOwners[normalizedOwner];
-                        
-                        return (
-                            <div key={owner} style={{ 
-                                display: 'flex', 
-                                alignItems: 'center', 
-                                gap: '10px', 
-                                fontSize: '0.8rem', 
-                                color: '#e4e4e7',
-                                background: '#27272a', 
-                                padding: '8px 10px', 
-                                borderRadius: '6px',
-                                border: knownIdentity ? '1px solid rgba(34, 197, 94, 0.2)' : '1px solid transparent'
-                            }}>
-                                <User size={14} color={knownIdentity ? '#22c55e' : '#71717a'} />
-                                
-                                {knownIdentity ? (
-                                    <div style={{display: 'flex', flexDirection: 'column', lineHeight: 1.2}}>
-                                        <span style={{fontWeight: 600, color: '#f4f4f5'}}>{knownIdentity}</span>
-                                        <span style={{fontSize: '0.7rem', color: '#71717a', fontFamily: 'var(--font-mono)'}}>
-                                            {owner.slice(0, 6)}...{owner.slice(-4)}
-                                        </span>
-                                    </div>
-                                ) : (
-                                    <span style={{fontFamily: 'var(--font-mono)', color: '#a1a1aa'}}>
-                                        {owner.slice(0, 8)}...{owner.slice(-6)}
-                                    </span>
-                                )}
-                            </div>
-                        );
-                    })}
-                </div>
-            </div>
+            <SignerList
+                owners={data.owners}
+                threshold={data.threshold}
+                identities={knownOwners}
+                canEdit={canOperate}
+                onIdentityChanged={onIdentityChanged}
+            />
+
+            {showOwners && canManageOwners && (
+                <OwnerManagementPanel
+                    safeAddress={data.address}
+                    owners={data.owners}
+                    threshold={data.threshold}
+                    currentUserAddress={currentUserAddress}
+                    identities={knownOwners}
+                    needsProposal={needsProposal}
+                    isSubmitting={isChangingOwners}
+                    onSubmit={submitOwnerChange}
+                    onClose={() => setShowOwners(false)}
+                />
+            )}
+
+            {proposals.length > 0 && (
+                <PendingProposals
+                    safe={data}
+                    proposals={proposals}
+                    currentUserAddress={currentUserAddress}
+                    config={config}
+                    knownOwners={knownOwners}
+                    canOperate={canOperate}
+                    getProvider={getProvider}
+                    onChanged={onProposalsChanged}
+                    onExecuted={() => onRefresh(data.id)}
+                />
+            )}
 
             {/* Actions */}
             <div className={styles.actions}>
@@ -229,13 +589,17 @@ export default function SafeCard({ data, currentUserAddress, config, knownOwners
                         </span>
                     </div>
 
-                    {data.isOwner ? (
+                    {data.isOwner && canOperate ? (
                         <button
-                            onClick={() => setIsExpanded(!isExpanded)}
+                            onClick={() => { setIsExpanded(!isExpanded); setReview(null); }}
                             className={`${styles.actionBtn} ${isExpanded ? styles.cancel : ''}`}
                         >
                             {isExpanded ? 'Cancel' : 'Recover Funds'}
                         </button>
+                    ) : canOperate && data.ownerWallets.length > 0 ? (
+                        <button onClick={() => onSelectSigner(data.ownerWallets[0])} className={styles.actionBtn} title="Another of your connected wallets owns this vault">
+                            Sign with {data.ownerWallets[0].slice(0, 6)}...{data.ownerWallets[0].slice(-4)}
+                        </button>
                     ) : (
                         <span style={{ fontSize: '0.8rem', color: '#71717a', background: '#27272a', padding: '4px 8px', borderRadius: '4px' }}>
                             Read Only
@@ -251,29 +615,164 @@ export default function SafeCard({ data, currentUserAddress, config, knownOwners
                             exit={{ height: 0, opacity: 0 }}
                             className={styles.form}
                         >
-                            <input
-                                value={recipient}
-                                onChange={e => setRecipient(e.target.value)}
-                                placeholder="Destination Address (0x...)"
-                                className={styles.input}
-                            />
-                            <div style={{ position: 'relative' }}>
-                                <input
-                                    value={amount}
-                                    onChange={e => setAmount(e.target.value)}
-                                    placeholder="Amount"
-                                    type="number"
-                                    className={styles.input}
-                                />
-                                <span style={{ position: 'absolute', right: 12, top: 10, fontSize: '0.8rem', color: '#71717a' }}>USDC</span>
-                            </div>
-                            <button
-                                onClick={handleTransfer}
-                                disabled={isLoading}
-                                className={styles.fireBtn}
-                            >
-                                {isLoading ? 'Processing...' : <><Rocket size={18} /> Execute Transfer</>}
-                            </button>
+                            {review ? (
+                                <div className={styles.review}>
+                                    <div className={styles.reviewHeader}>
+                                        {review.report.ok ? <ShieldCheck size={16} color="#22c55e" /> : <AlertTriangle size={16} color="#ef4444" />}
+                                        <span>{review.report.ok ? 'Simulation passed' : 'Simulation failed'}</span>
+                                    </div>
+                                    <span className={styles.reviewPath}>
+                                        {needsProposal
+                                            ? `Proposal (${data.threshold} signatures needed)`
+                                            : review.report.path === 'userOp' ? 'Gasless UserOperation' : 'execTransaction (signer pays gas)'}
+                                    </span>
+                                    <span className={styles.label}>Vault Balance Changes</span>
+                                    <div className={styles.assetList}>
+                                        {review.report.changes.map(change => (
+                                            <div key={change.tokenAddress ?? 'native'} className={styles.assetRow}>
+                                                <span>{change.symbol}</span>
+                                                <span className={styles.assetAmount}>
+                                                    {formatUnits(change.before, change.decimals)} → {formatUnits(change.after, change.decimals)}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <span className={styles.label}>Recipients</span>
+                                    <div className={styles.assetList}>
+                                        {review.report.transfers.map((transfer, i) => (
+                                            <div key={i} className={styles.assetRow}>
+                                                <span className={styles.assetAmount}>+{formatUnits(BigInt(transfer.amount), transfer.decimals)} {transfer.tokenSymbol}</span>
+                                                <span>{findEntry(addressBook, transfer.destination)?.label ?? `${transfer.destination.slice(0, 6)}...${transfer.destination.slice(-4)}`}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {review.report.error && <span className={styles.reviewError}>{review.report.error}</span>}
+                                    <div className={styles.reviewActions}>
+                                        <button onClick={() => setReview(null)} disabled={isLoading} className={styles.reviewBackBtn}>
+                                            <ArrowLeft size={14} /> Back
+                                        </button>
+                                        <button
+                                            onClick={() => exportForOfflineSigning(review)}
+                                            disabled={isLoading || !review.report.ok}
+                                            className={styles.reviewBackBtn}
+                                            title="Save as an unsigned Safe transaction and download the EIP-712 payload"
+                                        >
+                                            <FileDown size={14} /> Offline
+                                        </button>
+                                        <button
+                                            onClick={() => executeRecovery(review)}
+                                            disabled={isLoading || !review.report.ok}
+                                            className={styles.fireBtn}
+                                        >
+                                            {isLoading ? 'Processing...' : needsProposal ? 'Confirm & Propose' : 'Confirm & Sign'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className={styles.modeToggle}>
+                                        <button
+                                            onClick={() => selectMode('amount')}
+                                            className={`${styles.modeBtn} ${mode === 'amount' ? styles.modeBtnActive : ''}`}
+                                        >
+                                            USDC Amount
+                                        </button>
+                                        <button
+                                            onClick={() => selectMode('sweep')}
+                                            className={`${styles.modeBtn} ${mode === 'sweep' ? styles.modeBtnActive : ''}`}
+                                        >
+                                            Recover Everything
+                                        </button>
+                                    </div>
+                                    {mode === 'amount' ? (
+                                        <>
+                                            {splits.map((split, index) => (
+                                                <div key={index} className={styles.split}>
+                                                    <RecipientInput
+                                                        value={split.recipient}
+                                                        onChange={value => updateSplit(index, { recipient: value })}
+                                                        chainId={config.chainObj.id}
+                                                        addressBook={addressBook}
+                                                        enforceAddressBook={settings.enforceAddressBook}
+                                                        inputClassName={styles.input}
+                                                    />
+                                                    <div style={{ position: 'relative' }}>
+                                                        <input
+                                                            value={split.amount}
+                                                            onChange={e => updateSplit(index, { amount: e.target.value })}
+                                                            placeholder="Amount"
+                                                            inputMode="decimal"
+                                                            className={styles.input}
+                                                        />
+                                                        <span style={{ position: 'absolute', right: 12, top: 10, fontSize: '0.8rem', color: '#71717a' }}>USDC</span>
+                                                    </div>
+                                                    <div className={styles.shortcuts}>
+                                                        {AMOUNT_SHORTCUTS.map(shortcut => (
+                                                            <button key={shortcut.label} onClick={() => applyShortcut(index, shortcut.percent)} className={styles.shortcutBtn}>
+                                                                {shortcut.label}
+                                                            </button>
+                                                        ))}
+                                                        {splits.length > 1 && (
+                                                            <button onClick={() => setSplits(prev => prev.filter((_, i) => i !== index))} className={styles.shortcutBtn} title="Remove destination">
+                                                                <X size={12} />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                            <div className={styles.splitFooter}>
+                                                <button onClick={() => setSplits(prev => [...prev, EMPTY_SPLIT])} className={styles.shortcutBtn}>
+                                                    <Plus size={12} /> Add destination
+                                                </button>
+                                                {splits.length > 1 && (
+                                                    <span className={splitTotal > data.balanceRaw ? styles.splitOver : undefined}>
+                                                        {formatUnits(splitTotal, data.usdcDecimals)} / {data.balanceUSDC} USDC
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <button
+                                                onClick={handleTransfer}
+                                                disabled={isLoading}
+                                                className={styles.fireBtn}
+                                            >
+                                                {isLoading ? 'Checking...' : <><Rocket size={18} /> Review Transfer</>}
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <RecipientInput
+                                                value={recipient}
+                                                onChange={value => updateSplit(0, { recipient: value })}
+                                                chainId={config.chainObj.id}
+                                                addressBook={addressBook}
+                                                enforceAddressBook={settings.enforceAddressBook}
+                                                inputClassName={styles.input}
+                                            />
+                                            <div className={styles.assetList}>
+                                                {isScanning ? (
+                                                    <span className={styles.assetEmpty}>Scanning vault contents...</span>
+                                                ) : sweepAssets && sweepAssets.length > 0 ? (
+                                                    sweepAssets.map(asset => (
+                                                        <div key={asset.address ?? 'native'} className={styles.assetRow}>
+                                                            <span>{asset.symbol}</span>
+                                                            <span className={styles.assetAmount}>{formatUnits(asset.raw, asset.decimals)}</span>
+                                                        </div>
+                                                    ))
+                                                ) : (
+                                                    <span className={styles.assetEmpty}>{sweepAssets ? 'No assets detected' : 'Vault not scanned yet'}</span>
+                                                )}
+                                            </div>
+                                            <button
+                                                onClick={handleSweep}
+                                                disabled={isLoading || isScanning}
+                                                className={styles.fireBtn}
+                                            >
+                                                {isLoading ? 'Checking...' : <><Layers size={18} /> Review Sweep</>}
+                                            </button>
+                                        </>
+                                    )}
+                                </>
+                            )}
                         </motion.div>
                     )}
                 </AnimatePresence>
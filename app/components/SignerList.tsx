@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { User, Pencil, Check, X, Trash2 } from 'lucide-react';
+import { authFetch } from '@/lib/authFetch';
+import { identityName, type OwnerIdentity } from '@/lib/identities';
+import styles from './SignerList.module.css';
+
+interface Props {
+    owners: string[];
+    threshold: number;
+    identities: Record<string, OwnerIdentity>; // Keyed by lowercased address
+    canEdit: boolean; // Operators and admins may label signers
+    onIdentityChanged: (address: string, identity: OwnerIdentity) => void;
+}
+
+const WALLET_TYPE_LABELS: Record<NonNullable<OwnerIdentity['walletType']>, string> = {
+    embedded: 'Embedded',
+    external: 'External',
+    smart: 'Smart wallet'
+};
+
+const emptyIdentity = (address: string): OwnerIdentity => ({
+    address, name: null, email: null, label: null, labelId: null, walletType: null, walletClient: null, hasLoggedIn: null, lastSeenAt: null
+});
+
+export default function SignerList({ owners, threshold, identities, canEdit, onIdentityChanged }: Props) {
+    const [editing, setEditing] = useState<string | null>(null);
+    const [labelInput, setLabelInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const startEditing = (address: string) => {
+        setLabelInput(identities[address]?.label ?? '');
+        setEditing(address);
+    };
+
+    // Creates, renames or (with an empty value) removes the team label for one signer.
+    const saveLabel = async (address: string, value: string) => {
+        const identity = identities[address] ?? emptyIdentity(address);
+        const label = value.trim();
+        if (!label && !identity.labelId) {
+            setEditing(null);
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const resp = !label
+                ? await authFetch(`/api/signer-labels/${identity.labelId}`, { method: 'DELETE' })
+                : await authFetch(identity.labelId ? `/api/signer-labels/${identity.labelId}` : '/api/signer-labels', {
+                    method: identity.labelId ? 'PATCH' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ address, label })
+                });
+            const result = await resp.json();
+            if (!resp.ok) throw new Error(result.error || 'Label rejected');
+            onIdentityChanged(address, { ...identity, label: result.label?.label ?? null, labelId: result.label?.id ?? null });
+            setEditing(null);
+        } catch (e) {
+            console.error(e);
+            toast.error(e instanceof Error ? e.message : 'Failed to save label');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={styles.section}>
+            <span className={styles.heading}>Identified Signers ({threshold}/{owners.length})</span>
+            <div className={styles.list}>
+                {owners.map(owner => {
+                    const address = owner.toLowerCase();
+                    const identity = identities[address];
+                    const name = identityName(identity);
+                    // The label gets its own tag when the signer also has an account name.
+                    const extraLabel = identity?.label && identity.label !== name ? identity.label : null;
+
+                    return (
+                        <div key={owner} className={`${styles.row} ${name ? styles.known : ''}`}>
+                            <User size={14} color={name ? '#22c55e' : '#71717a'} />
+                            {editing === address ? (
+                                <div className={styles.editRow}>
+                                    <input
+                                        value={labelInput}
+                                        onChange={e => setLabelInput(e.target.value)}
+                                        onKeyDown={e => e.key === 'Enter' && saveLabel(address, labelInput)}
+                                        placeholder="Label (e.g. Fondu ops key)"
+                                        className={styles.input}
+                                        autoFocus
+                                    />
+                                    <button onClick={() => saveLabel(address, labelInput)} disabled={isSaving} className={styles.iconBtn} title="Save label"><Check size={14} /></button>
+                                    {identity?.labelId && (
+                                        <button onClick={() => saveLabel(address, '')} disabled={isSaving} className={styles.iconBtn} title="Remove label"><Trash2 size={14} /></button>
+                                    )}
+                                    <button onClick={() => setEditing(null)} className={styles.iconBtn} title="Cancel"><X size={14} /></button>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className={styles.identity}>
+                                        {name ? (
+                                            <>
+                                                <span className={styles.name}>{name}</span>
+                                                <span className={styles.address}>
+                                                    {identity?.name && identity.email ? `${identity.email} · ` : ''}{owner.slice(0, 6)}...{owner.slice(-4)}
+                                                </span>
+                                            </>
+                                        ) : (
+                                            <span className={styles.address}>{owner.slice(0, 8)}...{owner.slice(-6)}</span>
+                                        )}
+                                        <div className={styles.tags}>
+                                            {extraLabel && <span className={styles.labelTag}>{extraLabel}</span>}
+                                            {identity?.walletType && (
+                                                <span className={styles.tag} title={identity.walletClient ?? undefined}>
+                                                    {WALLET_TYPE_LABELS[identity.walletType]}{identity.walletType === 'external' && identity.walletClient ? ` · ${identity.walletClient}` : ''}
+                                                </span>
+                                            )}
+                                            {identity?.hasLoggedIn === false && <span className={styles.warnTag}>Never logged in</span>}
+                                        </div>
+                                    </div>
+                                    {canEdit && (
+                                        <button onClick={() => startEditing(address)} className={styles.iconBtn} title={identity?.label ? 'Edit label' : 'Add label'}>
+                                            <Pencil size={12} />
+                                        </button>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
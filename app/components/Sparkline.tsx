@@ -0,0 +1,29 @@
+'use client';
+
+interface Props {
+    values: number[];
+    width?: number;
+    height?: number;
+    color?: string;
+}
+
+/**
+ * Points for an SVG polyline scaled into the box; a flat series sits in the middle.
+ */
+export function toPolyline(values: number[], width: number, height: number, max = Math.max(...values), min = Math.min(...values)): string {
+    const range = max - min;
+    const step = values.length > 1 ? width / (values.length - 1) : 0;
+    return values
+        .map((v, i) => `${(i * step).toFixed(1)},${(range === 0 ? height / 2 : height - ((v - min) / range) * height).toFixed(1)}`)
+        .join(' ');
+}
+
+export default function Sparkline({ values, width = 120, height = 32, color = '#a855f7' }: Props) {
+    if (values.length < 2) return null;
+    const points = toPolyline(values, width, height - 2);
+    return (
+        <svg width={width} height={height} viewBox={`0 -1 ${width} ${height}`} aria-hidden="true">
+            <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+        </svg>
+    );
+}
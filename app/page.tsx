@@ -1,52 +1,110 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { usePrivy, useWallets } from '@privy-io/react-auth';
-import Safe from '@safe-global/protocol-kit';
-import { formatUnits, createPublicClient, custom, type EIP1193Provider } from 'viem';
-import { base, baseSepolia } from 'viem/chains';
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { usePrivy, useWallets, type WalletWithMetadata } from '@privy-io/react-auth';
+import { formatUnits, getAddress, type EIP1193Provider } from 'viem';
 import SafeCard, { SafeData } from './components/SafeCard';
+import BulkRecoveryPanel from './components/BulkRecoveryPanel';
+import RecoveryHistory from './components/RecoveryHistory';
+import ImportSafesPanel, { type ImportReport } from './components/ImportSafesPanel';
+import DiscoverSafesPanel from './components/DiscoverSafesPanel';
+import PortfolioPanel from './components/PortfolioPanel';
+import ProgressPanel from './components/ProgressPanel';
+import PendingOperationsPanel from './components/PendingOperationsPanel';
+import AddressBookPanel from './components/AddressBookPanel';
+import { readTokenDecimals, scanSafes } from '@/lib/safeScanner';
+import { getReadClient } from '@/lib/readClients';
+import { getOperations, getServerOperations, subscribeOperations, resumePendingOperations } from '@/lib/operations';
+import { authFetch } from '@/lib/authFetch';
+import { hasRole, type UserRecord } from '@/lib/roles';
+import type { OwnerIdentity } from '@/lib/identities';
+import type { ProposalRecord } from '@/lib/proposals';
+import type { TrackedSafeRecord } from '@/lib/trackedSafes';
+import { DEFAULT_SETTINGS, type AddressBookRecord, type AppSettings } from '@/lib/addressBook';
+import { CHAINS, CHAIN_REGISTRY, DEFAULT_CHAIN_ID } from '@/lib/chains';
 import { toast } from 'sonner';
-import { Plus, Power, Search, LayoutDashboard, ChevronDown, Copy, Check, AlertCircle, RefreshCw } from 'lucide-react';
+import { Plus, Power, Search, LayoutDashboard, ChevronDown, Copy, Check, AlertCircle, RefreshCw, Layers, FileSignature, History, FileUp, Radar, Globe, Activity, BookUser, UserCog, TrendingUp, KeyRound, FlaskConical } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
+import Link from 'next/link';
 import styles from './page.module.css';
 
 // --- CONSTANTS ---
-const DEFAULT_SAFES = [
-  "0xeAB30A69AC1384e7b88b6210E1ea9caC50FaEB6e",
-  "0xc8eC161985773Bcc8Ba4548325c1afc6e7133983",
-  "0x2eC614Ea50185011F05Fa872E8f533B990BD0967",
-  "0xc219Cc527520d4336Ff0D8B06F6628f7cc30c67e",
-  "0xe3f7c935A90542e92FEF0f335BC451A3f3af8655",
-  "0x53Ae2424ADC0f3b576C5E968e2F20803cFF71cC6",
-  "0x308A3405A5061d0369CB9eaeB37cd946F75B3e37",
-  "0xCd3aA4ed72089dA7c7af02163dbD370F6e922eBF"
-];
-const PIMLICO_API_KEY = process.env.NEXT_PUBLIC_PIMLICO_API_KEY;
-const ERC20_ABI = [{ type: 'function', name: 'balanceOf', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }], outputs: [{ type: 'uint256' }] }] as const;
-const CHAIN_CONFIG: any = {
-  8453: { name: 'Base Mainnet', chainObj: base, bundlerUrl: `https://api.pimlico.io/v2/8453/rpc?apikey=${PIMLICO_API_KEY}`, paymasterUrl: `https://api.pimlico.io/v2/8453/rpc?apikey=${PIMLICO_API_KEY}`, moduleAddress: '0x75cf11467937ce3F2f357CE24ffc3DBF8fD5c226', explorer: 'https://basescan.org', usdcAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' },
-  84532: { name: 'Base Sepolia', chainObj: baseSepolia, bundlerUrl: `https://api.pimlico.io/v2/84532/rpc?apikey=${PIMLICO_API_KEY}`, paymasterUrl: `https://api.pimlico.io/v2/84532/rpc?apikey=${PIMLICO_API_KEY}`, moduleAddress: '0x75cf11467937ce3F2f357CE24ffc3DBF8fD5c226', explorer: 'https://sepolia.basescan.org', usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' }
-};
+const LEDGER_CHAINS: Record<number, { name: string; explorer: string }> = Object.fromEntries(
+  CHAINS.map(chain => [chain.id, { name: chain.name, explorer: chain.explorer }])
+);
 
 // --- HELPERS ---
-const getStoredAddresses = (chainId: number): string[] => {
-  if (typeof window === 'undefined') return [];
-  const raw = localStorage.getItem(`safes_${chainId}`);
-  const stored = raw ? JSON.parse(raw) : [];
-  const defaults = chainId === 8453 ? DEFAULT_SAFES : [];
-  return Array.from(new Set([...defaults, ...stored]));
+const loadTrackedSafes = async (chainId: number): Promise<TrackedSafeRecord[]> => {
+  const resp = await authFetch(`/api/safes?chainId=${chainId}`);
+  const data = await resp.json();
+  if (!resp.ok) throw new Error(data.error || 'Registry unavailable');
+  return data.safes;
 };
-const addAddressToStorage = (chainId: number, address: string) => {
-  const current = getStoredAddresses(chainId);
-  if (!current.some(a => a.toLowerCase() === address.toLowerCase())) {
-    localStorage.setItem(`safes_${chainId}`, JSON.stringify([...current, address]));
+// One-time upload of the addresses that used to live in this browser's localStorage. Flagged as a
+// migration so any role may send it; the list is cleared once the registry has it.
+const migrateLocalSafes = async (chainId: number) => {
+  if (typeof window === 'undefined' || localStorage.getItem(`safes_${chainId}_migrated`)) return;
+  const raw = localStorage.getItem(`safes_${chainId}`);
+  const legacy: string[] = raw ? JSON.parse(raw) : [];
+  if (legacy.length > 0) {
+    const resp = await authFetch('/api/safes', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ chainId, addresses: legacy, migration: true }) });
+    if (!resp.ok) return;
   }
+  localStorage.setItem(`safes_${chainId}_migrated`, '1');
+  localStorage.removeItem(`safes_${chainId}`);
+};
+
+// The wallet that signs plus every wallet connected in this session (lowercased), so each
+// vault knows which of the user's keys own it.
+type SignerWallets = {
+  signer: string | undefined;
+  candidates: string[];
 };
-const removeAddressFromStorage = (chainId: number, address: string) => {
-  const current = getStoredAddresses(chainId);
-  const updated = current.filter(a => a.toLowerCase() !== address.toLowerCase());
-  localStorage.setItem(`safes_${chainId}`, JSON.stringify(updated));
+
+// Which of the session's wallets own a vault, and whether the signing one does. Derived from the
+// current wallets on every render, so switching signers or connecting a wallet needs no rescan.
+const withOwnership = (safe: SafeData, wallets: SignerWallets): SafeData => {
+  const ownerWallets = safe.owners.map(o => o.toLowerCase()).filter(o => wallets.candidates.includes(o));
+  return { ...safe, ownerWallets, isOwner: ownerWallets.includes(wallets.signer?.toLowerCase() ?? '') };
+};
+
+// Reads every Safe through batched Multicall3 calls on the chain's public RPC (no wallet chain switch);
+// addresses whose Safe getters revert come back in `failed`. Ownership is left to withOwnership.
+const fetchSafes = async (addresses: string[], chainId: number, tracked: TrackedSafeRecord[] = []) => {
+  const config = CHAIN_REGISTRY[chainId];
+  const client = getReadClient(chainId);
+  const configuredDecimals = config.tokens.find(t => t.address.toLowerCase() === config.usdcAddress.toLowerCase())?.decimals ?? 6;
+  const [results, usdcDecimals] = await Promise.all([
+    scanSafes(client, addresses, { tokenAddress: config.usdcAddress }),
+    readTokenDecimals(client, config.usdcAddress, configuredDecimals)
+  ]);
+  const trackedByAddress = new Map(tracked.map(t => [t.address.toLowerCase(), t]));
+  const loaded: SafeData[] = [];
+  const failed: string[] = [];
+
+  results.forEach(r => {
+    if (!r.isSafe) {
+      failed.push(r.address);
+      return;
+    }
+    loaded.push({
+      id: `${chainId}-${r.address}`,
+      address: r.address,
+      version: r.version,
+      threshold: r.threshold,
+      owners: r.owners,
+      balanceUSDC: formatUnits(r.tokenBalance ?? BigInt(0), usdcDecimals),
+      balanceRaw: r.tokenBalance ?? BigInt(0),
+      usdcDecimals,
+      isOwner: false,
+      ownerWallets: [],
+      modules: r.modules,
+      is4337Enabled: r.modules.some(m => m.toLowerCase() === config.moduleAddress.toLowerCase()),
+      tracked: trackedByAddress.get(r.address.toLowerCase())
+    });
+  });
+
+  return { loaded, failed };
 };
 
 // --- COMPONENT ---
@@ -54,56 +112,162 @@ export default function Home() {
   const { login, authenticated, logout, user, ready } = usePrivy();
   const { wallets, ready: walletsReady } = useWallets();
 
-  const [currentChainId, setCurrentChainId] = useState<number>(8453);
+  const [currentChainId, setCurrentChainId] = useState<number>(DEFAULT_CHAIN_ID);
   const [safeAddressInput, setSafeAddressInput] = useState('');
-  const [safes, setSafes] = useState<SafeData[]>([]);
+  const [scannedSafes, setSafes] = useState<SafeData[]>([]);
   const [isInitializing, setIsInitializing] = useState(false);
   const [loadingSafe, setLoadingSafe] = useState(false);
   const [debugMsg, setDebugMsg] = useState('');
   const [hasCopiedUser, setHasCopiedUser] = useState(false);
-  const [knownOwners, setKnownOwners] = useState<Record<string, string>>({});
+  const [knownOwners, setKnownOwners] = useState<Record<string, OwnerIdentity>>({});
+  const [showBulk, setShowBulk] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDiscover, setShowDiscover] = useState(false);
+  const [showPortfolio, setShowPortfolio] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showOperations, setShowOperations] = useState(false);
+  const [showAddressBook, setShowAddressBook] = useState(false);
+  const [addressBook, setAddressBook] = useState<AddressBookRecord[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [currentUser, setCurrentUser] = useState<UserRecord | null>(null);
+  const [proposals, setProposals] = useState<ProposalRecord[]>([]);
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({});
   const syncedRef = useRef(false);
 
   const googleAccount = user?.linkedAccounts?.find((a) => a.type === 'google_oauth') as any;
   const userDisplayName = googleAccount?.email || googleAccount?.name || 'Anonymous User';
+  // Primary wallet first, then any other Ethereum wallets linked to the Privy account.
+  const ownerCandidates = useMemo(() => {
+    const linked = (user?.linkedAccounts ?? [])
+      .filter((a): a is WalletWithMetadata => a.type === 'wallet' && a.chainType === 'ethereum')
+      .map(a => a.address);
+    const all = [user?.wallet?.address, ...linked].filter((a): a is string => !!a).map(a => getAddress(a));
+    return Array.from(new Set(all));
+  }, [user?.linkedAccounts, user?.wallet?.address]);
   const userWalletAddr = user?.wallet?.address;
+  // The wallet that signs: the one picked in the signer menu, else the primary wallet, else any connected wallet.
+  const [preferredSigner, setPreferredSigner] = useState<string | null>(null);
+  const signerWallet = useMemo(
+    () => wallets.find(w => w.address.toLowerCase() === preferredSigner?.toLowerCase())
+      ?? wallets.find(w => w.address.toLowerCase() === userWalletAddr?.toLowerCase())
+      ?? wallets[0],
+    [wallets, preferredSigner, userWalletAddr]
+  );
+  const signerAddress = signerWallet?.address;
+  const signerWallets = useMemo<SignerWallets>(
+    () => ({ signer: signerAddress, candidates: wallets.map(w => w.address.toLowerCase()) }),
+    [signerAddress, wallets]
+  );
+  const safes = useMemo(() => scannedSafes.map(safe => withOwnership(safe, signerWallets)), [scannedSafes, signerWallets]);
+  const hasSigner = !!signerWallet;
+  const primaryWalletChainType = user?.wallet?.chainType;
+  // Role comes from the synced User row; nothing that needs a session is requested before it arrives.
+  const role = currentUser?.role;
+  const isSynced = !!currentUser;
+  const canOperate = hasRole(role, 'OPERATOR');
+  const isAdmin = hasRole(role, 'ADMIN');
+  const enabledChains = useMemo(() => CHAINS.filter(chain => !settings.disabledChains.includes(chain.id)), [settings.disabledChains]);
 
   useEffect(() => {
     if (ready && authenticated && user && !syncedRef.current) {
       syncedRef.current = true;
-      fetch('/api/auth/sync', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ user })
-      }).catch(e => console.error("[Sync] Failed", e));
+      authFetch('/api/auth/sync', { method: 'POST' })
+        .then(res => res.json())
+        .then(data => { if (data.user) setCurrentUser(data.user); })
+        .catch(e => console.error("[Sync] Failed", e));
     }
   }, [ready, authenticated, user]);
 
   const getProvider = useCallback(async (targetChainId: number = currentChainId): Promise<EIP1193Provider> => {
-    const userAddress = user?.wallet?.address?.toLowerCase();
-    if (!userAddress) throw new Error('User address not found');
-    const wallet = wallets.find((w) => w.address.toLowerCase() === userAddress);
+    const wallet = signerWallet;
     if (!wallet) throw new Error('Wallet interface not ready yet');
     const walletChainId = Number(wallet.chainId.split(':')[1]);
     if (walletChainId !== targetChainId) await wallet.switchChain(targetChainId);
     return await wallet.getEthereumProvider() as unknown as EIP1193Provider;
-  }, [wallets, user, currentChainId]);
-
-  const fetchSafeData = async (address: string, chainId: number, provider: any): Promise<SafeData> => {
-    const config = CHAIN_CONFIG[chainId];
-    const userAddress = user?.wallet?.address as `0x${string}`;
-    const protocolKit = await Safe.init({ provider, safeAddress: address, signer: userAddress });
-    const publicClient = createPublicClient({ chain: config.chainObj, transport: custom(provider) });
-    const [owners, threshold, version, modules, isOwner, usdcBalanceRaw] = await Promise.all([
-      protocolKit.getOwners(),
-      protocolKit.getThreshold(),
-      protocolKit.getContractVersion(),
-      protocolKit.getModules(),
-      protocolKit.isOwner(userAddress),
-      publicClient.readContract({ address: config.usdcAddress, abi: ERC20_ABI, functionName: 'balanceOf', args: [address as `0x${string}`] })
-    ]);
-    const has4337 = modules.some((m: string) => m.toLowerCase() === config.moduleAddress.toLowerCase());
-    return { id: `${chainId}-${address}`, address, version, threshold, owners, balanceUSDC: formatUnits(usdcBalanceRaw, 6), isOwner, modules, is4337Enabled: has4337 };
+  }, [signerWallet, currentChainId]);
+
+  // Switching signers only changes which vaults this session can sign for; no rescan needed.
+  const selectSigner = (address: string) => setPreferredSigner(address);
+
+  const loadProposals = useCallback(async () => {
+    try {
+      const resp = await authFetch(`/api/proposals?chainId=${currentChainId}`);
+      const data = await resp.json();
+      if (data.proposals) setProposals(data.proposals);
+    } catch (e) {
+      console.error("[Proposals] Failed to load", e);
+    }
+  }, [currentChainId]);
+
+  useEffect(() => {
+    if (ready && authenticated && isSynced) loadProposals();
+  }, [ready, authenticated, isSynced, loadProposals]);
+
+  // Daily USDC balance per vault on the current network, drawn as a sparkline on each card.
+  const loadSparklines = useCallback(async () => {
+    try {
+      const resp = await authFetch(`/api/progress?chainId=${currentChainId}`);
+      const data = await resp.json();
+      setSparklines(data.chains?.[0]?.sparklines ?? {});
+    } catch (e) {
+      console.error("[Progress] Failed to load sparklines", e);
+    }
+  }, [currentChainId]);
+
+  useEffect(() => {
+    if (ready && authenticated && isSynced) loadSparklines();
+  }, [ready, authenticated, isSynced, loadSparklines]);
+
+  const loadAddressBook = useCallback(async () => {
+    try {
+      const resp = await authFetch(`/api/address-book?chainId=${currentChainId}`);
+      const data = await resp.json();
+      if (data.entries) setAddressBook(data.entries);
+    } catch (e) {
+      console.error("[AddressBook] Failed to load", e);
+    }
+  }, [currentChainId]);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const resp = await authFetch('/api/settings');
+      const data = await resp.json();
+      if (!data.settings) return;
+      const next: AppSettings = data.settings;
+      setSettings(next);
+      // Move off a network an admin has switched off.
+      setCurrentChainId(prev => next.disabledChains.includes(prev) ? (CHAINS.find(c => !next.disabledChains.includes(c.id))?.id ?? prev) : prev);
+    } catch (e) {
+      console.error("[Settings] Failed to load", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (ready && authenticated && isSynced) {
+      loadAddressBook();
+      loadSettings();
+    }
+  }, [ready, authenticated, isSynced, loadAddressBook, loadSettings]);
+
+  // Operations broadcast before a reload keep being polled (and settled) from here.
+  const operations = useSyncExternalStore(subscribeOperations, getOperations, getServerOperations);
+  const pendingOperations = operations.filter(op => op.status === 'PENDING').length;
+  useEffect(() => {
+    if (ready && authenticated && canOperate) resumePendingOperations();
+  }, [ready, authenticated, canOperate]);
+
+  const loadPortfolioChain = useCallback(async (chainId: number) => {
+    const tracked = await loadTrackedSafes(chainId);
+    if (tracked.length === 0) return [];
+    const { loaded } = await fetchSafes(tracked.map(entry => entry.address), chainId, tracked);
+    return loaded.map(safe => withOwnership(safe, signerWallets));
+  }, [signerWallets]);
+
+  const fetchSafeData = async (address: string, chainId: number, tracked?: TrackedSafeRecord): Promise<SafeData> => {
+    const { loaded } = await fetchSafes([address], chainId, tracked ? [tracked] : []);
+    if (loaded.length === 0) throw new Error(`${address} is not a Safe on chain ${chainId}`);
+    return loaded[0];
   };
 
   useEffect(() => {
@@ -114,21 +278,22 @@ export default function Home() {
             return;
         }
 
-        const userWalletAddress = user?.wallet?.address?.toLowerCase();
-        const foundWallet = wallets.find(w => w.address.toLowerCase() === userWalletAddress);
-
-        if (authenticated && user?.wallet && walletsReady && !foundWallet) {
+        // Any connected Ethereum wallet will do; the primary one no longer has to be among them.
+        if (authenticated && primaryWalletChainType && walletsReady && !hasSigner) {
             // FIX: More specific error message for this state.
-            const expectedChain = (user.wallet as any).chainType || 'unknown';
+            const expectedChain = primaryWalletChainType || 'unknown';
             setDebugMsg(`Session Mismatch: Your account's primary wallet is on the '${expectedChain}' network, but this app requires an Ethereum wallet. Please logout to reset.`);
             return;
         }
 
-        const currentWallet = foundWallet;
-        if (!authenticated || !user?.wallet || !currentWallet) {
+        if (!authenticated || !hasSigner) {
             if (authenticated) setDebugMsg('Waiting for wallet connection...');
             return;
         }
+        if (!isSynced) {
+            setDebugMsg('Verifying session...');
+            return;
+        }
 
         setIsInitializing(true);
         setDebugMsg('Scanning blockchain...');
@@ -136,35 +301,25 @@ export default function Home() {
         setKnownOwners({});
 
         try {
-            const provider = await getProvider(currentChainId);
-            const storedAddresses = getStoredAddresses(currentChainId);
-            if (storedAddresses.length === 0) {
+            await migrateLocalSafes(currentChainId);
+            const tracked = await loadTrackedSafes(currentChainId);
+            if (tracked.length === 0) {
                 setIsInitializing(false);
                 setDebugMsg('');
                 return;
             }
 
-            const results = await Promise.allSettled(storedAddresses.map(addr => fetchSafeData(addr, currentChainId, provider)));
-            const loadedSafes: SafeData[] = [];
-            let allOwners: string[] = [], errorCount = 0;
-
-            results.forEach((res, index) => {
-                if (res.status === 'fulfilled') {
-                    loadedSafes.push(res.value);
-                    allOwners.push(...res.value.owners);
-                } else {
-                    console.error(`[Hydrate] Failed to load ${storedAddresses[index]}:`, res.reason);
-                    errorCount++;
-                }
-            });
-
-            setDebugMsg(loadedSafes.length === 0 && errorCount > 0 ? `Failed to load targets. Check console for RPC errors.` : '');
+            const { loaded: loadedSafes, failed } = await fetchSafes(tracked.map(entry => entry.address), currentChainId, tracked);
+            const allOwners = loadedSafes.flatMap(s => s.owners);
+            failed.forEach(address => console.error(`[Hydrate] ${address} did not answer as a Safe on this network`));
+
+            setDebugMsg(loadedSafes.length === 0 && failed.length > 0 ? `Failed to load targets. Check console for RPC errors.` : '');
             setSafes(loadedSafes);
 
             if (allOwners.length > 0) {
                 const uniqueOwners = Array.from(new Set(allOwners));
-                fetch('/api/users/resolve', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ addresses: uniqueOwners })})
-                .then(res => res.json()).then(data => { if (data.map) setKnownOwners(data.map); })
+                authFetch('/api/users/resolve', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ chainId: currentChainId, addresses: uniqueOwners })})
+                .then(res => res.json()).then(data => { if (data.identities) setKnownOwners(data.identities); })
                 .catch(err => console.error("[Hydrate] Owner resolve error", err));
             }
         } catch (err: any) {
@@ -176,7 +331,7 @@ export default function Home() {
         }
     };
     hydrateSafes();
-  }, [currentChainId, authenticated, user?.wallet?.address, walletsReady, ready, wallets.length, getProvider]); 
+  }, [currentChainId, authenticated, user?.wallet?.address, primaryWalletChainType, walletsReady, ready, wallets.length, hasSigner, isSynced]);
 
   const copyUserAddress = () => {
     if (userWalletAddr) {
@@ -198,13 +353,15 @@ export default function Home() {
     }
     setLoadingSafe(true);
     try {
-      const provider = await getProvider();
-      const newSafe = await fetchSafeData(safeAddressInput, currentChainId, provider);
+      const newSafe = await fetchSafeData(getAddress(safeAddressInput), currentChainId);
+      const registered = await authFetch('/api/safes', { method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify({ chainId: currentChainId, addresses: [newSafe.address] }) });
+      const registry = await registered.json();
+      if (!registered.ok) throw new Error(registry.error || 'Registry rejected the vault');
+      newSafe.tracked = registry.safes[0];
       setSafes(prev => [...prev, newSafe]);
-      addAddressToStorage(currentChainId, newSafe.address);
-      const resp = await fetch('/api/users/resolve', { method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify({ addresses: newSafe.owners }) });
+      const resp = await authFetch('/api/users/resolve', { method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify({ chainId: currentChainId, addresses: newSafe.owners }) });
       const data = await resp.json();
-      if(data.map) setKnownOwners(prev => ({...prev, ...data.map}));
+      if(data.identities) setKnownOwners(prev => ({...prev, ...data.identities}));
       setSafeAddressInput('');
       toast.success('Vault targeted successfully');
     } catch (e: any) {
@@ -215,17 +372,76 @@ export default function Home() {
     }
   };
 
-  const removeSafe = (safeId: string) => {
+  // Addresses arrive parsed, checksummed and deduplicated against the tracked list.
+  const importSafes = async (addresses: string[]): Promise<ImportReport> => {
+    const { loaded, failed: notSafe } = await fetchSafes(addresses, currentChainId);
+    if (loaded.length === 0) return { added: [], notSafe };
+
+    try {
+      const resp = await authFetch('/api/safes', { method: 'POST', headers: {'Content-Type': 'application/json'}, body: JSON.stringify({ chainId: currentChainId, addresses: loaded.map(s => s.address) }) });
+      const registry = await resp.json();
+      if (!resp.ok) throw new Error(registry.error || 'Registry rejected the import');
+      const byAddress = new Map<string, TrackedSafeRecord>(registry.safes.map((t: TrackedSafeRecord) => [t.address, t]));
+      loaded.forEach(s => { s.tracked = byAddress.get(s.address.toLowerCase()); });
+    } catch (e) {
+      console.error('[Import] Registry error', e);
+      toast.error('Failed to save imported vaults');
+      return { added: [], notSafe };
+    }
+
+    setSafes(prev => [...prev, ...loaded.filter(s => !prev.some(p => p.id === s.id))]);
+    authFetch('/api/users/resolve', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ chainId: currentChainId, addresses: Array.from(new Set(loaded.flatMap(s => s.owners))) })})
+      .then(res => res.json()).then(data => { if (data.identities) setKnownOwners(prev => ({...prev, ...data.identities})); })
+      .catch(err => console.error("[Import] Owner resolve error", err));
+    toast.success(`Imported ${loaded.length} vault${loaded.length === 1 ? '' : 's'}`);
+    return { added: loaded.map(s => s.address), notSafe };
+  };
+
+  const refreshSafe = async (safeId: string) => {
+    const target = safes.find(s => s.id === safeId);
+    if (!target) return;
+    try {
+      const updated = await fetchSafeData(target.address, currentChainId, target.tracked);
+      setSafes(prev => prev.map(s => s.id === safeId ? updated : s));
+    } catch (e) {
+      console.error(`[Refresh] Failed to reload ${target.address}:`, e);
+    }
+  };
+
+  const removeSafe = async (safeId: string) => {
     const safeToRemove = safes.find(s => s.id === safeId);
-    if (safeToRemove) {
-      setSafes(prev => prev.filter(s => s.id !== safeId));
-      removeAddressFromStorage(currentChainId, safeToRemove.address);
-      toast.info('Target removed from Inator');
+    if (!safeToRemove) return;
+    if (safeToRemove.tracked) {
+      const resp = await authFetch(`/api/safes/${safeToRemove.tracked.id}`, { method: 'DELETE' });
+      if (!resp.ok && resp.status !== 404) {
+        toast.error('Failed to remove target');
+        return;
+      }
     }
+    setSafes(prev => prev.filter(s => s.id !== safeId));
+    toast.info('Target removed from Inator');
+  };
+
+  const updateTracked = (safeId: string, tracked: TrackedSafeRecord) => {
+    setSafes(prev => prev.map(s => s.id === safeId ? { ...s, tracked } : s));
+  };
+
+  const updateIdentity = (address: string, identity: OwnerIdentity) => {
+    setKnownOwners(prev => ({ ...prev, [address]: identity }));
   };
 
   const totalBalance = useMemo(() => safes.reduce((acc, safe) => acc + parseFloat(safe.balanceUSDC), 0), [safes]);
 
+  // Proposals on Safes the user co-owns that still lack the user's signature.
+  const awaitingSignature = useMemo(() => {
+    const me = signerAddress?.toLowerCase();
+    if (!me || !canOperate) return 0;
+    return proposals.filter(p => {
+      const safe = safes.find(s => s.address.toLowerCase() === p.safeAddress);
+      return safe?.isOwner && !p.signatures.some(sig => sig.signer.toLowerCase() === me);
+    }).length;
+  }, [proposals, safes, signerAddress, canOperate]);
+
   return (
     <div className="layout-root">
       <nav className={styles.nav}>
@@ -235,20 +451,35 @@ export default function Home() {
             <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
               <div className={styles.userProfile}>
                 <div className={styles.userDetails}>
-                    <span className={styles.userName}>{userDisplayName}</span>
+                    <span className={styles.userName}>
+                        {userDisplayName}
+                        {role && <span className={styles.roleTag}>{role.toLowerCase()}</span>}
+                    </span>
                     <button onClick={copyUserAddress} className={styles.userAddressBtn}>
                         {userWalletAddr?.slice(0,6)}...{userWalletAddr?.slice(-4)}
                         {hasCopiedUser ? <Check size={10} color="#22c55e" /> : <Copy size={10} />}
                     </button>
                 </div>
               </div>
+              {wallets.length > 1 && (
+                <div className={styles.networkControl}>
+                  <select className={styles.networkSelect} value={signerAddress} onChange={(e) => selectSigner(e.target.value)} title="Signing wallet">
+                    {wallets.map(w => (
+                      <option key={w.address} value={w.address}>
+                        {w.address.slice(0, 6)}...{w.address.slice(-4)} · {w.walletClientType === 'privy' ? 'Embedded' : w.walletClientType}
+                      </option>
+                    ))}
+                  </select>
+                  <KeyRound size={14} className={styles.selectIcon} />
+                </div>
+              )}
               <div className={styles.networkControl}>
                 <select className={styles.networkSelect} value={currentChainId} onChange={(e) => setCurrentChainId(Number(e.target.value))}>
-                  <option value={8453}>Base (Real)</option>
-                  <option value={84532}>Sepolia (Sim)</option>
+                  {enabledChains.map(chain => <option key={chain.id} value={chain.id}>{chain.label}</option>)}
                 </select>
                 <ChevronDown size={14} className={styles.selectIcon} />
               </div>
+              {isAdmin && <Link href="/admin" className={styles.logoutBtn} title="Roles & Networks"><UserCog size={20} /></Link>}
               <button onClick={logout} className={styles.logoutBtn} title="Self Destruct"><Power size={20} /></button>
             </div>
           )}
@@ -269,10 +500,77 @@ export default function Home() {
                 <span className={styles.totalAmount}>${totalBalance.toLocaleString()}</span>
               </div>
               <div className={styles.searchBar}>
-                <input className={styles.searchInput} placeholder="Import Contract Coordinates (0x...)" value={safeAddressInput} onChange={(e) => setSafeAddressInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddSafe()} />
-                <button onClick={handleAddSafe} disabled={loadingSafe} className={styles.addBtn}>{loadingSafe ? <div className="spin-anim"><Search size={16} /></div> : <Plus size={20} />}</button>
+                {isAdmin && (
+                  <>
+                    <input className={styles.searchInput} placeholder="Import Contract Coordinates (0x...)" value={safeAddressInput} onChange={(e) => setSafeAddressInput(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddSafe()} />
+                    <button onClick={handleAddSafe} disabled={loadingSafe} className={styles.addBtn}>{loadingSafe ? <div className="spin-anim"><Search size={16} /></div> : <Plus size={20} />}</button>
+                  </>
+                )}
+                <button onClick={() => setShowPortfolio(!showPortfolio)} className={styles.bulkBtn} title="Cross-Chain Portfolio"><Globe size={18} /></button>
+                <button onClick={() => setShowProgress(!showProgress)} className={styles.bulkBtn} title="Recovery Progress"><TrendingUp size={18} /></button>
+                <button onClick={() => setShowDiscover(!showDiscover)} disabled={ownerCandidates.length === 0} className={styles.bulkBtn} title="Find My Vaults"><Radar size={18} /></button>
+                {isAdmin && <button onClick={() => setShowImport(!showImport)} className={styles.bulkBtn} title="Import Vaults"><FileUp size={18} /></button>}
+                {canOperate && <button onClick={() => setShowBulk(!showBulk)} disabled={safes.length === 0} className={styles.bulkBtn} title="Bulk Extraction"><Layers size={18} /></button>}
+                <button onClick={() => setShowHistory(!showHistory)} className={styles.bulkBtn} title="Extraction Ledger"><History size={18} /></button>
+                <button onClick={() => setShowAddressBook(!showAddressBook)} className={styles.bulkBtn} title="Address Book"><BookUser size={18} /></button>
+                <button onClick={() => setShowOperations(!showOperations)} className={styles.bulkBtn} title="Operations">
+                  <Activity size={18} />
+                  {pendingOperations > 0 && <span className={styles.opsCount}>{pendingOperations}</span>}
+                </button>
               </div>
             </div>
+            {CHAIN_REGISTRY[currentChainId].sandbox && (
+              <div className={styles.sandboxBanner}>
+                <FlaskConical size={16} />
+                Sandbox network: everything is sent to the local fork at {CHAIN_REGISTRY[currentChainId].chainObj.rpcUrls.default.http[0]}, never to the real chain.
+              </div>
+            )}
+            {awaitingSignature > 0 && (
+              <div className={styles.proposalBanner}>
+                <FileSignature size={16} />
+                {awaitingSignature} recovery proposal{awaitingSignature === 1 ? '' : 's'} awaiting your signature
+              </div>
+            )}
+            <AnimatePresence>
+              {showAddressBook && (
+                <AddressBookPanel chainId={currentChainId} networkName={CHAIN_REGISTRY[currentChainId].name} entries={addressBook} settings={settings} role={role ?? 'VIEWER'} onEntriesChanged={loadAddressBook} onSettingsChanged={setSettings} onClose={() => setShowAddressBook(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showOperations && (
+                <PendingOperationsPanel chains={LEDGER_CHAINS} onClose={() => setShowOperations(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showPortfolio && (
+                <PortfolioPanel chains={enabledChains} loadChain={loadPortfolioChain} onSelectChain={setCurrentChainId} onClose={() => setShowPortfolio(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showProgress && (
+                <ProgressPanel chains={enabledChains} onSelectChain={setCurrentChainId} onClose={() => setShowProgress(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showDiscover && ownerCandidates.length > 0 && (
+                <DiscoverSafesPanel networkName={CHAIN_REGISTRY[currentChainId].name} chainObj={CHAIN_REGISTRY[currentChainId].chainObj} ownerAddresses={ownerCandidates} trackedAddresses={safes.map(s => s.address)} getProvider={() => getProvider(currentChainId)} onTrack={isAdmin ? importSafes : undefined} onClose={() => setShowDiscover(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showImport && isAdmin && (
+                <ImportSafesPanel networkName={CHAIN_REGISTRY[currentChainId].name} trackedAddresses={safes.map(s => s.address)} onImport={importSafes} onClose={() => setShowImport(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showHistory && (
+                <RecoveryHistory chains={LEDGER_CHAINS} safeAddresses={safes.map(s => s.address)} onClose={() => setShowHistory(false)} />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {showBulk && canOperate && safes.length > 0 && (
+                <BulkRecoveryPanel safes={safes} config={CHAIN_REGISTRY[currentChainId]} addressBook={addressBook} settings={settings} currentUserAddress={signerAddress as string} getProvider={() => getProvider(currentChainId)} onRecovered={refreshSafe} onClose={() => setShowBulk(false)} />
+              )}
+            </AnimatePresence>
             <section>
               {isInitializing ? (
                 <div className={styles.loadingState}>
@@ -294,7 +592,7 @@ export default function Home() {
                   ) : (
                       <>
                         <LayoutDashboard size={48} style={{ opacity: 0.5, marginBottom: 16 }} />
-                        <p>No targets found. Import a contract address to begin recovery.</p>
+                        <p>{isAdmin ? 'No targets found. Import a contract address to begin recovery.' : 'No targets found. Ask an admin to add a vault.'}</p>
                       </>
                   )}
                 </motion.div>
@@ -302,7 +600,7 @@ export default function Home() {
                 <div className={styles.grid}>
                   <AnimatePresence>
                     {safes.map(safe => (
-                      <SafeCard key={safe.id} data={safe} knownOwners={knownOwners} currentUserAddress={user?.wallet?.address!} config={CHAIN_CONFIG[currentChainId]} getProvider={() => getProvider(currentChainId)} onRemove={removeSafe} />
+                      <SafeCard key={safe.id} data={safe} knownOwners={knownOwners} currentUserAddress={signerAddress as string} config={CHAIN_REGISTRY[currentChainId]} proposals={proposals.filter(p => p.safeAddress === safe.address.toLowerCase())} addressBook={addressBook} settings={settings} role={role ?? 'VIEWER'} history={sparklines[safe.address.toLowerCase()]} getProvider={() => getProvider(currentChainId)} onRemove={removeSafe} onProposalsChanged={loadProposals} onTrackedChanged={updateTracked} onRefresh={refreshSafe} onIdentityChanged={updateIdentity} onSelectSigner={selectSigner} />
                     ))}
                   </AnimatePresence>
                 </div>
@@ -0,0 +1,102 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Coins, ExternalLink, Info, Shield, Zap } from 'lucide-react';
+import { getChainConfig } from '@/lib/chains';
+import { loadPublicVault } from '@/lib/publicVaults';
+import PublicSignerList from '../../../components/PublicSignerList';
+import styles from '../page.module.css';
+
+// Balances are re-read from the public RPC at most once a minute, however often the link is opened.
+export const revalidate = 60;
+
+type Params = { params: Promise<{ chainId: string; address: string }> };
+
+const formatAmount = (value: string) => Number(value).toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { chainId, address } = await params;
+  const chain = getChainConfig(Number(chainId));
+  return { title: `Vault ${address.slice(0, 6)}...${address.slice(-4)}${chain ? ` on ${chain.name}` : ''} · FONDU-FUNDS-BACK-INATOR` };
+}
+
+// Public, read-only page for one tracked vault, meant to be shared with people who have no account.
+// Signers are shown as addresses; identities only appear for signed-in team members.
+export default async function PublicVaultPage({ params }: Params) {
+  const { chainId, address } = await params;
+  const loaded = await loadPublicVault(Number(chainId), address);
+  if (!loaded) notFound();
+
+  const { chain, vault } = loaded;
+  const moduleAddress = getChainConfig(chain.id)?.moduleAddress.toLowerCase();
+
+  return (
+    <main className={styles.main}>
+      <Link href={`/safe/${chain.id}`} className={styles.backLink}><ArrowLeft size={14} /> All vaults on {chain.name}</Link>
+      <h1 className={styles.title}>{vault.label || 'Asset Vault'}</h1>
+      <div className={styles.subtitle}>
+        {vault.is4337Enabled
+          ? <span className={`${styles.badge} ${styles.gasless}`}><Zap size={10} /> Gasless</span>
+          : <span className={styles.badge}><Shield size={10} /> Classic v{vault.version}</span>}
+        <a href={`${chain.explorer}/address/${vault.address}`} target="_blank" rel="noreferrer" className={`${styles.mono} ${styles.link}`}>
+          {vault.address} <ExternalLink size={10} />
+        </a>
+      </div>
+
+      <div className={styles.stats}>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Detected Value</span>
+          <span className={styles.statValue}>{formatAmount(vault.balanceUSDC)}<span className={styles.statUnit}>USDC</span></span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>{chain.nativeSymbol}</span>
+          <span className={styles.statValue}>{formatAmount(vault.balanceNative)}</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Threshold</span>
+          <span className={styles.statValue}>{vault.threshold}<span className={styles.statUnit}>of {vault.owners.length}</span></span>
+        </div>
+      </div>
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}><Coins size={16} color="#a855f7" /> Assets</div>
+        {vault.assets.length === 0 ? (
+          <span className={styles.muted}>No balance in any configured asset.</span>
+        ) : (
+          <table className={styles.table}>
+            <tbody>
+              {vault.assets.map(asset => (
+                <tr key={asset.symbol}>
+                  <td>{asset.symbol}</td>
+                  <td className={styles.numeric}>{formatAmount(asset.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}><Info size={16} color="#a855f7" /> Safe</div>
+        <dl className={styles.details}>
+          <dt>Version</dt>
+          <dd>{vault.version || 'Unknown'}</dd>
+          <dt>4337 module</dt>
+          <dd>{vault.is4337Enabled ? 'Enabled (recoveries are sponsored)' : 'Not enabled'}</dd>
+          <dt>Modules</dt>
+          <dd>
+            {vault.modules.length === 0 ? <span className={styles.muted}>None</span> : vault.modules.map(m => (
+              <span key={m} className={styles.mono}>{m}{m.toLowerCase() === moduleAddress ? ' (Safe 4337 module)' : ''}</span>
+            ))}
+          </dd>
+        </dl>
+      </section>
+
+      <section className={styles.section}>
+        <PublicSignerList chainId={chain.id} owners={vault.owners} threshold={vault.threshold} />
+      </section>
+
+      <p className={styles.muted}>Read from the public {chain.name} RPC. Signer identities are only shown to signed-in team members.</p>
+    </main>
+  );
+}
@@ -0,0 +1,90 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, Vault, Zap } from 'lucide-react';
+import { getChainConfig } from '@/lib/chains';
+import { loadPublicChainSummary } from '@/lib/publicVaults';
+import styles from './page.module.css';
+
+// Balances are re-read from the public RPC at most once a minute, however often the link is opened.
+export const revalidate = 60;
+
+type Params = { params: Promise<{ chainId: string }> };
+
+const formatAmount = (value: string) => Number(value).toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { chainId } = await params;
+  const chain = getChainConfig(Number(chainId));
+  return { title: chain ? `${chain.name} vaults · FONDU-FUNDS-BACK-INATOR` : 'FONDU-FUNDS-BACK-INATOR' };
+}
+
+// Public, read-only list of every tracked vault on one chain. No login required.
+export default async function ChainSummaryPage({ params }: Params) {
+  const { chainId } = await params;
+  const summary = await loadPublicChainSummary(Number(chainId));
+  if (!summary) notFound();
+
+  const { chain, vaults, totalUSDC } = summary;
+  const gasless = vaults.filter(v => v.is4337Enabled).length;
+
+  return (
+    <main className={styles.main}>
+      <Link href="/" className={styles.backLink}><ArrowLeft size={14} /> Dashboard</Link>
+      <h1 className={styles.title}>{chain.name} Vaults</h1>
+      <div className={styles.subtitle}>Read-only view of the tracked vaults, read from the public {chain.name} RPC.</div>
+
+      <div className={styles.stats}>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Recoverable</span>
+          <span className={styles.statValue}>{formatAmount(totalUSDC)}<span className={styles.statUnit}>USDC</span></span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Vaults</span>
+          <span className={styles.statValue}>{vaults.length}</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Gasless</span>
+          <span className={styles.statValue}>{gasless}<span className={styles.statUnit}>of {vaults.length}</span></span>
+        </div>
+      </div>
+
+      {vaults.length === 0 ? (
+        <div className={styles.notice}>No vaults are tracked on {chain.name}.</div>
+      ) : (
+        <section className={styles.section}>
+          <div className={styles.sectionHeader}><Vault size={16} color="#a855f7" /> Tracked Vaults</div>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Vault</th>
+                <th>Mode</th>
+                <th>Signers</th>
+                <th className={styles.numeric}>USDC</th>
+                <th className={styles.numeric}>{chain.nativeSymbol}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {vaults.map(vault => (
+                <tr key={vault.address}>
+                  <td>
+                    <Link href={`/safe/${chain.id}/${vault.address}`} className={styles.link}>{vault.label || 'Asset Vault'}</Link>
+                    <div className={styles.mono}>{vault.address.slice(0, 6)}...{vault.address.slice(-4)}</div>
+                  </td>
+                  <td>
+                    {vault.is4337Enabled
+                      ? <span className={`${styles.badge} ${styles.gasless}`}><Zap size={10} /> Gasless</span>
+                      : <span className={styles.badge}>Classic v{vault.version}</span>}
+                  </td>
+                  <td>{vault.threshold} required</td>
+                  <td className={styles.numeric}>{formatAmount(vault.balanceUSDC)}</td>
+                  <td className={styles.numeric}>{formatAmount(vault.balanceNative)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,23 @@
+// Shape returned by the /api/address-book routes. `address` is stored lowercased.
+export type AddressBookRecord = {
+  id: string;
+  chainId: number;
+  address: string;
+  label: string;
+  createdAt: string;
+  addedBy: { walletAddress: string; email: string | null; name: string | null } | null;
+};
+
+// Team-wide switches returned by /api/settings.
+export type AppSettings = {
+  enforceAddressBook: boolean; // Block transfers to destinations that are not in the address book
+  disabledChains: number[]; // Configured networks an admin has switched off for the team
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  enforceAddressBook: false,
+  disabledChains: []
+};
+
+export const findEntry = (entries: AddressBookRecord[], address: string) =>
+  entries.find(e => e.address === address.toLowerCase()) ?? null;
@@ -0,0 +1,35 @@
+import { getAddress, isAddress } from 'viem';
+
+export type ParsedAddressList = {
+  valid: string[]; // Checksummed, deduplicated, in input order
+  invalid: string[];
+};
+
+// Accepts one address per line or CSV rows whose first column is the address
+// (e.g. addresses.txt, nonzero_usdc.csv). Blank lines, `#` comments and an
+// `address` header row are skipped.
+export const parseAddressList = (text: string): ParsedAddressList => {
+  const seen = new Set<string>();
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const candidate = line.split(/[,;\t]/)[0].trim().replace(/^"|"$/g, '');
+    if (candidate.toLowerCase() === 'address') continue;
+
+    if (!isAddress(candidate, { strict: false })) {
+      invalid.push(candidate);
+      continue;
+    }
+
+    const checksummed = getAddress(candidate);
+    if (seen.has(checksummed)) continue;
+    seen.add(checksummed);
+    valid.push(checksummed);
+  }
+
+  return { valid, invalid };
+};
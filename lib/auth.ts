@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { PrivyClient, type LinkedAccountWithMetadata } from '@privy-io/server-auth';
+import type { User } from '@prisma/client';
+import { prisma } from './prisma';
+import { hasRole, type Role } from './roles';
+import type { LinkedAccountInfo } from './identities';
+
+// What the dashboard stores about a Privy account, as reported by Privy rather than the browser.
+export type VerifiedIdentity = {
+  privyId: string;
+  walletAddress: string | null; // lowercased
+  email: string | null;
+  name: string | null;
+  linkedAccounts: LinkedAccountInfo[];
+};
+
+export type AuthVerifier = {
+  // Resolves to the Privy user id the access token was issued for; rejects on a bad or expired token.
+  verifyToken: (token: string) => Promise<string>;
+  getIdentity: (privyId: string) => Promise<VerifiedIdentity>;
+};
+
+const describeAccount = (account: LinkedAccountWithMetadata): LinkedAccountInfo => {
+  const info: LinkedAccountInfo = { type: account.type, address: null, walletClient: null, detail: null };
+  switch (account.type) {
+    case 'wallet':
+      return { ...info, address: account.address.toLowerCase(), walletClient: account.walletClientType ?? null };
+    case 'smart_wallet':
+      return { ...info, address: account.address.toLowerCase(), walletClient: account.smartWalletType ?? null };
+    case 'email':
+      return { ...info, detail: account.address };
+    case 'phone':
+      return { ...info, detail: account.number };
+    case 'google_oauth':
+      return { ...info, detail: account.email };
+    default:
+      return { ...info, detail: 'username' in account ? account.username ?? null : null };
+  }
+};
+
+const privyVerifier = (): AuthVerifier => {
+  const appId = process.env.NEXT_PUBLIC_PRIVY_APP_ID;
+  const appSecret = process.env.PRIVY_APP_SECRET;
+  if (!appId || !appSecret) throw new Error('NEXT_PUBLIC_PRIVY_APP_ID and PRIVY_APP_SECRET are required to verify sessions');
+  const client = new PrivyClient(appId, appSecret);
+
+  return {
+    verifyToken: async (token) => (await client.verifyAuthToken(token)).userId,
+    getIdentity: async (privyId) => {
+      const user = await client.getUserById(privyId);
+      return {
+        privyId: user.id,
+        walletAddress: user.wallet?.address.toLowerCase() ?? null,
+        email: user.google?.email ?? user.email?.address ?? null,
+        name: user.google?.name ?? null,
+        linkedAccounts: user.linkedAccounts.map(describeAccount)
+      };
+    }
+  };
+};
+
+/**
+ * Local stand-in enabled with AUTH_VERIFIER=stub outside production. Tokens take the form
+ * `stub:<wallet>[:<email>]`, so a session can be faked without a Privy app secret.
+ */
+const stubVerifier: AuthVerifier = {
+  verifyToken: async (token) => {
+    const [scheme, wallet] = token.split(':');
+    if (scheme !== 'stub' || !/^0x[0-9a-fA-F]{40}$/.test(wallet ?? '')) throw new Error('Invalid stub token');
+    return token;
+  },
+  getIdentity: async (privyId) => {
+    const [, wallet, email] = privyId.split(':');
+    const linkedAccounts: LinkedAccountInfo[] = [{ type: 'wallet', address: wallet.toLowerCase(), walletClient: 'stub', detail: null }];
+    if (email) linkedAccounts.push({ type: 'email', address: null, walletClient: null, detail: email });
+    return { privyId, walletAddress: wallet.toLowerCase(), email: email || null, name: null, linkedAccounts };
+  }
+};
+
+let verifier: AuthVerifier | null = null;
+
+export const getAuthVerifier = (): AuthVerifier => {
+  if (!verifier) {
+    verifier = process.env.AUTH_VERIFIER === 'stub' && process.env.NODE_ENV !== 'production' ? stubVerifier : privyVerifier();
+  }
+  return verifier;
+};
+
+/**
+ * Replaces the verifier (tests, scripts). Pass null to go back to the environment default.
+ */
+export const setAuthVerifier = (override: AuthVerifier | null) => {
+  verifier = override;
+};
+
+/**
+ * Privy user id behind the request's `Authorization: Bearer <access token>` header,
+ * or null when the header is missing or the token does not verify. Server-side only.
+ */
+export async function authenticate(request: Request): Promise<string | null> {
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+  const active = getAuthVerifier();
+  try {
+    return await active.verifyToken(token);
+  } catch (e) {
+    console.warn('[Auth] Token rejected', e instanceof Error ? e.message : e);
+    return null;
+  }
+}
+
+/**
+ * The synced User row for the request's session, or null when unauthenticated or never synced.
+ */
+export async function getSessionUser(request: Request) {
+  const privyId = await authenticate(request);
+  if (!privyId) return null;
+  return prisma.user.findUnique({ where: { privyId } });
+}
+
+/**
+ * Gate for API routes: the session user when they hold at least `minimum`, otherwise the
+ * 401 (no session) or 403 (role too low) response to return as-is.
+ */
+export async function authorize(request: Request, minimum: Role = 'VIEWER'): Promise<User | NextResponse> {
+  const user = await getSessionUser(request);
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!hasRole(user.role, minimum)) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  return user;
+}
+
+/**
+ * Every wallet address (lowercased) tied to a session user: the primary wallet plus the linked ones.
+ */
+export async function getUserWallets(user: User): Promise<string[]> {
+  const linked = await prisma.linkedWallet.findMany({ where: { userId: user.id, address: { not: null } }, select: { address: true } });
+  return Array.from(new Set([user.walletAddress, ...linked.map(w => w.address as string)]));
+}
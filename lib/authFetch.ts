@@ -0,0 +1,12 @@
+import { getAccessToken } from '@privy-io/react-auth';
+
+/**
+ * fetch() with the Privy access token attached, for API routes that verify the session
+ * server-side (see lib/auth.ts).
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = await getAccessToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,136 @@
+import { defineChain, isAddress, type Chain } from 'viem';
+import { arbitrum, base, baseSepolia, mainnet, optimism, polygon, sepolia } from 'viem/chains';
+import chainsConfig from '../config/chains.json';
+import type { ExecutionConfig } from './safeExecution';
+import type { TokenConfig } from './sweep';
+import { MULTICALL3_ADDRESS } from './safeScanner';
+
+// Chains with a viem definition bundled; any other id needs an `rpcUrl` in config/chains.json.
+const KNOWN_CHAINS: Record<number, Chain> = Object.fromEntries(
+  [arbitrum, base, baseSepolia, mainnet, optimism, polygon, sepolia].map(chain => [chain.id, chain])
+);
+
+const PIMLICO_API_KEY = process.env.NEXT_PUBLIC_PIMLICO_API_KEY ?? '';
+
+export type ChainConfig = ExecutionConfig & {
+  id: number;
+  name: string;
+  label: string; // Short name for the network selector
+  explorer: string;
+  usdcAddress: string;
+  nativeSymbol: string;
+  tokens: TokenConfig[];
+  testnet: boolean; // Test tokens with no real value
+};
+
+// Raw entry as written in config/chains.json.
+type ChainConfigEntry = {
+  chainId: number;
+  name: string;
+  label?: string;
+  enabled?: boolean;
+  sandbox?: boolean;
+  testnet?: boolean;
+  rpcUrl?: string;
+  explorer: string;
+  bundlerUrl: string;
+  paymasterUrl: string;
+  moduleAddress: string;
+  usdcAddress: string;
+  nativeSymbol: string;
+  tokens: TokenConfig[];
+};
+
+type RawChainRegistry = { defaultChainId?: number; chains?: Partial<ChainConfigEntry>[] };
+
+// An explicit `enabled` wins; a sandbox entry without one is on everywhere except production,
+// where its bundler route is not served.
+const isEnabled = (entry: ChainConfigEntry) => entry.enabled ?? (!entry.sandbox || process.env.NODE_ENV !== 'production');
+
+const fillTemplate = (url: string, chainId: number) =>
+  url.replace('{chainId}', String(chainId)).replace('{PIMLICO_API_KEY}', PIMLICO_API_KEY);
+
+const validateEntry = (entry: Partial<ChainConfigEntry>, index: number): string[] => {
+  const where = `chains[${index}]${entry.chainId ? ` (${entry.chainId})` : ''}`;
+  const errors: string[] = [];
+  if (!Number.isInteger(entry.chainId) || (entry.chainId as number) <= 0) errors.push(`${where}: chainId must be a positive integer`);
+  for (const key of ['name', 'explorer', 'bundlerUrl', 'paymasterUrl', 'nativeSymbol'] as const) {
+    if (typeof entry[key] !== 'string' || !entry[key]) errors.push(`${where}: ${key} is required`);
+  }
+  for (const key of ['moduleAddress', 'usdcAddress'] as const) {
+    if (typeof entry[key] !== 'string' || !isAddress(entry[key] as string)) errors.push(`${where}: ${key} must be an address`);
+  }
+  if (!Array.isArray(entry.tokens)) {
+    errors.push(`${where}: tokens must be an array`);
+  } else {
+    entry.tokens.forEach((token, t) => {
+      if (!token?.symbol || !isAddress(token?.address ?? '') || !Number.isInteger(token?.decimals)) {
+        errors.push(`${where}: tokens[${t}] needs symbol, address and integer decimals`);
+      }
+    });
+  }
+  if (entry.sandbox && !entry.rpcUrl) errors.push(`${where}: rpcUrl is required for a sandbox chain`);
+  else if (entry.chainId && !KNOWN_CHAINS[entry.chainId] && !entry.rpcUrl) errors.push(`${where}: rpcUrl is required for chains without a bundled viem definition`);
+  return errors;
+};
+
+const toChainObj = (entry: ChainConfigEntry): Chain => {
+  const known = KNOWN_CHAINS[entry.chainId];
+  if (known && !entry.rpcUrl) return known;
+  return defineChain({
+    ...known,
+    id: entry.chainId,
+    name: entry.name,
+    nativeCurrency: known?.nativeCurrency ?? { name: entry.nativeSymbol, symbol: entry.nativeSymbol, decimals: 18 },
+    rpcUrls: { default: { http: [entry.rpcUrl as string] } },
+    blockExplorers: { default: { name: entry.name, url: entry.explorer } },
+    contracts: known?.contracts ?? { multicall3: { address: MULTICALL3_ADDRESS } }
+  });
+};
+
+/**
+ * Validates the raw chain configuration and resolves it into typed entries.
+ * Throws with every problem listed so a bad config fails loudly at startup.
+ */
+export function parseChainRegistry(raw: RawChainRegistry): { chains: ChainConfig[]; defaultChainId: number } {
+  if (!Array.isArray(raw.chains)) throw new Error('Invalid chain configuration: `chains` must be an array');
+
+  const errors = raw.chains.flatMap(validateEntry);
+  const ids = raw.chains.map(c => c.chainId);
+  ids.forEach((id, i) => { if (ids.indexOf(id) !== i) errors.push(`chains[${i}]: duplicate chainId ${id}`); });
+  if (errors.length > 0) throw new Error(`Invalid chain configuration:\n - ${errors.join('\n - ')}`);
+
+  const chains = (raw.chains as ChainConfigEntry[])
+    .filter(isEnabled)
+    .map(entry => ({
+      id: entry.chainId,
+      name: entry.name,
+      label: entry.label || entry.name,
+      chainObj: toChainObj(entry),
+      sandbox: entry.sandbox === true,
+      testnet: entry.testnet === true,
+      bundlerUrl: fillTemplate(entry.bundlerUrl, entry.chainId),
+      paymasterUrl: fillTemplate(entry.paymasterUrl, entry.chainId),
+      explorer: entry.explorer.replace(/\/$/, ''),
+      moduleAddress: entry.moduleAddress,
+      usdcAddress: entry.usdcAddress,
+      nativeSymbol: entry.nativeSymbol,
+      tokens: entry.tokens
+    }));
+
+  if (chains.length === 0) throw new Error('Invalid chain configuration: no enabled chains');
+  const defaultChainId = chains.some(c => c.id === raw.defaultChainId) ? (raw.defaultChainId as number) : chains[0].id;
+  return { chains, defaultChainId };
+}
+
+const registry = parseChainRegistry(chainsConfig as RawChainRegistry);
+
+// Enabled chains, in config order.
+export const CHAINS: ChainConfig[] = registry.chains;
+export const CHAIN_REGISTRY: Record<number, ChainConfig> = Object.fromEntries(CHAINS.map(c => [c.id, c]));
+export const DEFAULT_CHAIN_ID = registry.defaultChainId;
+
+export const getChainConfig = (chainId: number): ChainConfig | undefined => CHAIN_REGISTRY[chainId];
+
+// Testnet tokens and a sandbox fork's copy of mainnet balances are not real money and stay out of dollar totals.
+export const holdsRealFunds = (chain: Pick<ChainConfig, 'testnet' | 'sandbox'>) => !chain.testnet && !chain.sandbox;
@@ -0,0 +1,14 @@
+type CsvValue = string | number | bigint | boolean | null | undefined;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes a header row plus data rows into RFC 4180 CSV text.
+ */
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,69 @@
+import { encodeFunctionData, getAddress, keccak256, slice, toHex, type PublicClient } from 'viem';
+import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
+
+// Safe4337Pack refuses Safes below this version (the module relies on 1.4.1's fallback routing).
+export const MIN_GASLESS_SAFE_VERSION = '1.4.1';
+
+// Storage slot the Safe's FallbackManager keeps the handler address in.
+const FALLBACK_HANDLER_SLOT = keccak256(toHex('fallback_manager.handler.address'));
+
+const SAFE_MODULE_ABI = [
+  { type: 'function', name: 'enableModule', stateMutability: 'nonpayable', inputs: [{ name: 'module', type: 'address' }], outputs: [] },
+  { type: 'function', name: 'setFallbackHandler', stateMutability: 'nonpayable', inputs: [{ name: 'handler', type: 'address' }], outputs: [] },
+  { type: 'function', name: 'isModuleEnabled', stateMutability: 'view', inputs: [{ name: 'module', type: 'address' }], outputs: [{ type: 'bool' }] }
+] as const;
+
+/**
+ * True when a Safe `version` (e.g. "1.3.0", "1.4.1+L2") is `minimum` or later.
+ */
+export function isSafeVersionAtLeast(version: string, minimum: string): boolean {
+  const parse = (v: string) => v.split(/[+-]/)[0].split('.').map(part => parseInt(part, 10) || 0);
+  const current = parse(version);
+  const required = parse(minimum);
+  for (let i = 0; i < required.length; i++) {
+    if ((current[i] ?? 0) !== required[i]) return (current[i] ?? 0) > required[i];
+  }
+  return true;
+}
+
+/**
+ * True when a Safe at `version` can run the Safe 4337 module.
+ */
+export function isGaslessCompatible(version: string): boolean {
+  return isSafeVersionAtLeast(version, MIN_GASLESS_SAFE_VERSION);
+}
+
+/**
+ * Builds the Safe self-calls that make a classic Safe usable through Safe4337Pack:
+ * `enableModule` for the 4337 module and `setFallbackHandler` pointing at the same
+ * module, each skipped when already in place. Returns an empty batch when nothing is missing.
+ */
+export async function buildGaslessUpgrade(publicClient: PublicClient, safeAddress: string, moduleAddress: string): Promise<MetaTransactionData[]> {
+  const safe = safeAddress as `0x${string}`;
+  const safeModule = getAddress(moduleAddress);
+
+  const [moduleEnabled, handlerSlot] = await Promise.all([
+    publicClient.readContract({ address: safe, abi: SAFE_MODULE_ABI, functionName: 'isModuleEnabled', args: [safeModule] }),
+    publicClient.getStorageAt({ address: safe, slot: FALLBACK_HANDLER_SLOT })
+  ]);
+  const currentHandler = handlerSlot ? getAddress(slice(handlerSlot, 12)) : null;
+
+  const transactions: MetaTransactionData[] = [];
+  if (!moduleEnabled) {
+    transactions.push({
+      to: safe,
+      value: '0',
+      data: encodeFunctionData({ abi: SAFE_MODULE_ABI, functionName: 'enableModule', args: [safeModule] }),
+      operation: OperationType.Call
+    });
+  }
+  if (currentHandler !== safeModule) {
+    transactions.push({
+      to: safe,
+      value: '0',
+      data: encodeFunctionData({ abi: SAFE_MODULE_ABI, functionName: 'setFallbackHandler', args: [safeModule] }),
+      operation: OperationType.Call
+    });
+  }
+  return transactions;
+}
@@ -0,0 +1,33 @@
+// One Privy linked account as stored in LinkedWallet.
+export type LinkedAccountInfo = {
+  type: string;
+  address: string | null; // lowercased, wallet types only
+  walletClient: string | null;
+  detail: string | null;
+};
+
+// What /api/users/resolve knows about a Safe owner, keyed by lowercased address.
+// Account details (name, email, wallet, login) are only disclosed to co-owners; labels are team-wide.
+export type OwnerIdentity = {
+  address: string;
+  name: string | null;
+  email: string | null;
+  label: string | null;
+  labelId: string | null;
+  walletType: 'embedded' | 'external' | 'smart' | null;
+  walletClient: string | null;
+  hasLoggedIn: boolean | null; // null when the caller may not see account details
+  lastSeenAt: string | null;
+};
+
+export const walletTypeOf = (account: Pick<LinkedAccountInfo, 'type' | 'walletClient'>): OwnerIdentity['walletType'] => {
+  if (account.type === 'smart_wallet') return 'smart';
+  if (account.type !== 'wallet') return null;
+  return account.walletClient === 'privy' ? 'embedded' : 'external';
+};
+
+/**
+ * Best display name for an owner: account name, then email, then the team label.
+ */
+export const identityName = (identity: OwnerIdentity | undefined) =>
+  identity ? identity.name || identity.email || identity.label : null;
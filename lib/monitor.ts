@@ -0,0 +1,177 @@
+import { formatUnits, parseUnits } from 'viem';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { CHAINS, type ChainConfig } from './chains';
+import { getReadClient } from './readClients';
+import { scanNativeBalances, scanTokenBalances } from './safeScanner';
+import { loadSettings } from './settings';
+import { NATIVE_DECIMALS } from './sweep';
+import { sendNotifications, type DeliveryResult, type MonitorEvent } from './notifications';
+
+export type MonitorReport = {
+  scannedAt: string;
+  chains: { chainId: number; safes: number; snapshots: number; error?: string }[];
+  events: MonitorEvent[];
+  deliveries: DeliveryResult[];
+};
+
+type Reading = {
+  safeAddress: string; // lowercased
+  tokenAddress: string | null;
+  tokenSymbol: string;
+  decimals: number;
+  amount: bigint;
+};
+
+type SnapshotRow = Prisma.BalanceSnapshotCreateManyInput;
+
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+const format = (raw: bigint, decimals: number) => Number(formatUnits(raw, decimals)).toLocaleString('en-US', { maximumFractionDigits: 6 });
+
+// Minimum change (in whole token units, any asset) worth a BALANCE_CHANGED alert. 0 reports every change.
+const minChange = (decimals: number) => {
+  try {
+    return parseUnits(process.env.MONITOR_MIN_CHANGE || '0', decimals);
+  } catch {
+    return BigInt(0);
+  }
+};
+
+// Native currency plus every configured token, for every address, in a handful of multicalls.
+const readBalances = async (chain: ChainConfig, addresses: string[]): Promise<Reading[]> => {
+  const client = getReadClient(chain.id);
+  const readings: Reading[] = [];
+  const native = await scanNativeBalances(client, addresses);
+  native.forEach(r => readings.push({ safeAddress: r.address.toLowerCase(), tokenAddress: null, tokenSymbol: chain.nativeSymbol, decimals: NATIVE_DECIMALS, amount: r.raw }));
+  for (const token of chain.tokens) {
+    const balances = await scanTokenBalances(client, addresses, token.address);
+    balances.forEach(r => readings.push({ safeAddress: r.address.toLowerCase(), tokenAddress: token.address.toLowerCase(), tokenSymbol: token.symbol, decimals: token.decimals, amount: r.raw }));
+  }
+  return readings;
+};
+
+/**
+ * Rescans one chain's tracked vaults, writes a snapshot for every balance that moved since the
+ * last one without raising an alert, and returns the alerts along with their snapshots, which are
+ * only written once the alerts went out. The first reading of an asset only sets a baseline.
+ */
+async function monitorChain(chain: ChainConfig): Promise<{ safes: number; snapshots: number; events: MonitorEvent[]; held: SnapshotRow[] }> {
+  const tracked = await prisma.trackedSafe.findMany({ where: { chainId: chain.id }, select: { address: true } });
+  if (tracked.length === 0) return { safes: 0, snapshots: 0, events: [], held: [] };
+  const addresses = tracked.map(t => t.address);
+
+  const [readings, previous] = await Promise.all([
+    readBalances(chain, addresses),
+    prisma.balanceSnapshot.findMany({
+      where: { chainId: chain.id, safeAddress: { in: addresses } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['safeAddress', 'tokenAddress']
+    })
+  ]);
+  const lastByKey = new Map(previous.map(s => [`${s.safeAddress}:${s.tokenAddress ?? 'native'}`, BigInt(s.amount)]));
+
+  const quiet: SnapshotRow[] = [];
+  const held: SnapshotRow[] = [];
+  const events: MonitorEvent[] = [];
+  readings.forEach(reading => {
+    const last = lastByKey.get(`${reading.safeAddress}:${reading.tokenAddress ?? 'native'}`);
+    if (last === reading.amount) return;
+    const row = { chainId: chain.id, safeAddress: reading.safeAddress, tokenAddress: reading.tokenAddress, tokenSymbol: reading.tokenSymbol, decimals: reading.decimals, amount: reading.amount.toString() };
+    if (last === undefined) {
+      quiet.push(row);
+      return;
+    }
+
+    const delta = reading.amount - last;
+    const base = {
+      chainId: chain.id,
+      safeAddress: reading.safeAddress,
+      tokenSymbol: reading.tokenSymbol,
+      tokenAddress: reading.tokenAddress,
+      decimals: reading.decimals,
+      previous: last.toString(),
+      current: reading.amount.toString(),
+      link: `${chain.explorer}/address/${reading.safeAddress}`
+    };
+    if (last === BigInt(0)) {
+      events.push({ ...base, kind: 'BALANCE_APPEARED', message: `${format(reading.amount, reading.decimals)} ${reading.tokenSymbol} landed in ${short(reading.safeAddress)} on ${chain.name}` });
+      held.push(row);
+    } else if ((delta < BigInt(0) ? -delta : delta) >= minChange(reading.decimals)) {
+      const direction = delta > BigInt(0) ? 'rose' : 'fell';
+      events.push({ ...base, kind: 'BALANCE_CHANGED', message: `${reading.tokenSymbol} in ${short(reading.safeAddress)} on ${chain.name} ${direction} from ${format(last, reading.decimals)} to ${format(reading.amount, reading.decimals)}` });
+      held.push(row);
+    } else {
+      quiet.push(row);
+    }
+  });
+
+  if (quiet.length > 0) await prisma.balanceSnapshot.createMany({ data: quiet });
+  return { safes: tracked.length, snapshots: quiet.length, events, held };
+}
+
+// Confirmed ledger entries nobody has been told about yet, with their ids so they can be marked
+// as announced once delivery went through.
+async function collectRecoveries(): Promise<{ ids: string[]; events: MonitorEvent[] }> {
+  const recoveries = await prisma.recovery.findMany({ where: { status: 'CONFIRMED', notifiedAt: null }, orderBy: { createdAt: 'asc' } });
+
+  const events = recoveries.map((r): MonitorEvent => {
+    const chain = CHAINS.find(c => c.id === r.chainId);
+    return {
+      kind: 'RECOVERY_COMPLETED',
+      chainId: r.chainId,
+      safeAddress: r.safeAddress,
+      tokenSymbol: r.tokenSymbol,
+      tokenAddress: r.tokenAddress,
+      decimals: r.decimals,
+      previous: null,
+      current: r.amount,
+      message: `Recovered ${format(BigInt(r.amount), r.decimals)} ${r.tokenSymbol} from ${short(r.safeAddress)} to ${short(r.destination)}${chain ? ` on ${chain.name}` : ''}`,
+      link: chain ? (r.txHash ? `${chain.explorer}/tx/${r.txHash}` : `${chain.explorer}/address/${r.safeAddress}`) : ''
+    };
+  });
+  return { ids: recoveries.map(r => r.id), events };
+}
+
+/**
+ * One monitoring pass over every enabled chain except the sandbox: snapshots, alerts for new or
+ * moved balances and finished recoveries, then delivery to the configured channels. A failing chain
+ * is reported, not thrown.
+ */
+export async function runBalanceMonitor(): Promise<MonitorReport> {
+  const { disabledChains } = await loadSettings();
+  const report: MonitorReport = { scannedAt: new Date().toISOString(), chains: [], events: [], deliveries: [] };
+  const held: { entry: MonitorReport['chains'][number]; rows: SnapshotRow[] }[] = [];
+
+  // Sandbox forks hold throwaway state; alerts about them would only be noise.
+  for (const chain of CHAINS.filter(c => !c.sandbox && !disabledChains.includes(c.id))) {
+    try {
+      const { safes, snapshots, events, held: rows } = await monitorChain(chain);
+      const entry = { chainId: chain.id, safes, snapshots };
+      report.chains.push(entry);
+      report.events.push(...events);
+      if (rows.length > 0) held.push({ entry, rows });
+    } catch (e) {
+      console.error(`[Monitor] Failed to scan ${chain.name}`, e);
+      report.chains.push({ chainId: chain.id, safes: 0, snapshots: 0, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  const recoveries = await collectRecoveries();
+  report.events.push(...recoveries.events);
+  report.deliveries = await sendNotifications(report.events);
+
+  // An alert counts as announced once some channel took it (or none is configured); when every
+  // channel failed, recoveries stay pending and the balances that raised alerts keep their old
+  // snapshot, so the next pass sends them again.
+  const delivered = report.deliveries.length === 0 || report.deliveries.some(d => d.ok);
+  if (delivered && recoveries.ids.length > 0) {
+    await prisma.recovery.updateMany({ where: { id: { in: recoveries.ids } }, data: { notifiedAt: new Date() } });
+  }
+  if (delivered) {
+    for (const { entry, rows } of held) {
+      await prisma.balanceSnapshot.createMany({ data: rows });
+      entry.snapshots += rows.length;
+    }
+  }
+  return report;
+}
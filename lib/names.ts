@@ -0,0 +1,65 @@
+import { createPublicClient, http, namehash, parseAbi, type PublicClient } from 'viem';
+import { base, baseSepolia, mainnet } from 'viem/chains';
+import { normalize } from 'viem/ens';
+
+// Basenames keep primary names on a Base L2 resolver; everything else resolves through L1 ENS
+// (which also serves *.base.eth forward lookups via CCIP-read).
+const BASENAME_RESOLVERS: Record<number, `0x${string}`> = {
+  [base.id]: '0xC6d566A56A1aFf6508b41f6c90ff131615583BCD',
+  [baseSepolia.id]: '0x6533C94869D28fAA8dF77cc63f9e2b2D6Cf77eBA'
+};
+const L2_RESOLVER_ABI = parseAbi(['function name(bytes32 node) view returns (string)']);
+
+let ensClient: PublicClient | null = null;
+const getEnsClient = () => {
+  if (!ensClient) ensClient = createPublicClient({ chain: mainnet, transport: http() }) as PublicClient;
+  return ensClient;
+};
+
+const names = new Map<string, Promise<string | null>>();
+
+// ENSIP-11 reverse node: <addr>.<coinType>.reverse, with coinType = 0x80000000 | chainId.
+const basenameReverseNode = (address: string, chainId: number) => {
+  const coinType = ((0x80000000 | chainId) >>> 0).toString(16).toUpperCase();
+  return namehash(`${address.toLowerCase().slice(2)}.${coinType}.reverse`);
+};
+
+const lookupBasename = async (publicClient: PublicClient, address: string, chainId: number) => {
+  const resolver = BASENAME_RESOLVERS[chainId];
+  if (!resolver) return null;
+  const name = await publicClient.readContract({ address: resolver, abi: L2_RESOLVER_ABI, functionName: 'name', args: [basenameReverseNode(address, chainId)] });
+  return name || null;
+};
+
+/**
+ * Primary name for an address: the Basename on Base chains, otherwise the ENS name. Cached per session.
+ */
+export function lookupName(publicClient: PublicClient, address: string, chainId: number): Promise<string | null> {
+  const key = `${chainId}:${address.toLowerCase()}`;
+  const cached = names.get(key);
+  if (cached) return cached;
+
+  const lookup = lookupBasename(publicClient, address, chainId)
+    .catch(() => null)
+    .then(name => name ?? getEnsClient().getEnsName({ address: address as `0x${string}` }))
+    .catch(e => {
+      console.warn(`[Names] Reverse lookup failed for ${address}`, e);
+      return null;
+    });
+  names.set(key, lookup);
+  return lookup;
+}
+
+export const looksLikeName = (value: string) => /^[^\s.]+(\.[^\s.]+)+$/.test(value.trim()) && !value.trim().startsWith('0x');
+
+/**
+ * Forward-resolves an ENS name or Basename (e.g. `vitalik.eth`, `jesse.base.eth`) to an address.
+ */
+export async function resolveName(name: string): Promise<string | null> {
+  try {
+    return await getEnsClient().getEnsAddress({ name: normalize(name.trim()) });
+  } catch (e) {
+    console.warn(`[Names] Could not resolve ${name}`, e);
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+import { getAddress, hashTypedData } from 'viem';
+import type { MetaTransactionData, SafeTransactionData } from '@safe-global/types-kit';
+import { isSafeVersionAtLeast } from './gaslessUpgrade';
+import type { ProposalRecord, SafeTxPayload } from './proposals';
+
+// Version the Safe{Wallet} Transaction Builder app writes into its own exports.
+const TX_BUILDER_VERSION = '1.16.5';
+const SIGNATURE_HEX_LENGTH = 130; // 65 bytes
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+} as const;
+
+// Safe{Wallet} Transaction Builder batch file ("Load batch" / drag and drop).
+export type TransactionBuilderBatch = {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: { to: string; value: string; data: string | null; contractMethod: null; contractInputsValues: null }[];
+};
+
+/**
+ * Batch file for the Transaction Builder app. Every entry is a plain call with raw calldata,
+ * which is all a recovery or owner change ever contains.
+ */
+export function toTransactionBuilderBatch({ chainId, safeAddress, transactions, name, description, createdBy }: {
+  chainId: number;
+  safeAddress: string;
+  transactions: MetaTransactionData[];
+  name: string;
+  description: string;
+  createdBy?: string;
+}): TransactionBuilderBatch {
+  return {
+    version: '1.0',
+    chainId: String(chainId),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: getAddress(safeAddress),
+      createdFromOwnerAddress: createdBy ? getAddress(createdBy) : ''
+    },
+    transactions: transactions.map(tx => ({ to: getAddress(tx.to), value: tx.value || '0', data: tx.data && tx.data !== '0x' ? tx.data : null, contractMethod: null, contractInputsValues: null }))
+  };
+}
+
+/**
+ * The SafeTx as an `eth_signTypedData_v4` document, ready for a hardware wallet, `cast wallet sign --data`
+ * or any EIP-712 signer. Safes before 1.3.0 leave chainId out of the domain.
+ */
+export function toSafeTxTypedData({ chainId, safeAddress, safeVersion, safeTransaction }: {
+  chainId: number;
+  safeAddress: string;
+  safeVersion: string;
+  safeTransaction: SafeTransactionData;
+}) {
+  const withChainId = isSafeVersionAtLeast(safeVersion, '1.3.0');
+  const domainTypes = [
+    ...(withChainId ? [{ name: 'chainId', type: 'uint256' }] : []),
+    { name: 'verifyingContract', type: 'address' }
+  ];
+  const message = {
+    to: getAddress(safeTransaction.to),
+    value: String(safeTransaction.value),
+    data: safeTransaction.data || '0x',
+    operation: Number(safeTransaction.operation),
+    safeTxGas: String(safeTransaction.safeTxGas),
+    baseGas: String(safeTransaction.baseGas),
+    gasPrice: String(safeTransaction.gasPrice),
+    gasToken: getAddress(safeTransaction.gasToken),
+    refundReceiver: getAddress(safeTransaction.refundReceiver),
+    nonce: String(safeTransaction.nonce)
+  };
+  return {
+    types: { EIP712Domain: domainTypes, ...SAFE_TX_TYPES },
+    primaryType: 'SafeTx' as const,
+    domain: { ...(withChainId ? { chainId } : {}), verifyingContract: getAddress(safeAddress) },
+    message
+  };
+}
+
+/**
+ * Hash an owner signs for `typedData`; matches the Safe's `getTransactionHash`.
+ */
+export function hashSafeTxTypedData(typedData: ReturnType<typeof toSafeTxTypedData>): string {
+  const { message } = typedData;
+  return hashTypedData({
+    domain: typedData.domain,
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx',
+    message: {
+      ...message,
+      data: message.data as `0x${string}`,
+      value: BigInt(message.value),
+      safeTxGas: BigInt(message.safeTxGas),
+      baseGas: BigInt(message.baseGas),
+      gasPrice: BigInt(message.gasPrice),
+      nonce: BigInt(message.nonce)
+    }
+  });
+}
+
+const downloadJson = (filename: string, value: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportName = (proposal: ProposalRecord, suffix: string) =>
+  `safe-tx-${proposal.safeAddress.slice(0, 8)}-${proposal.nonce}-${proposal.safeTxHash.slice(2, 10)}.${suffix}.json`;
+
+/**
+ * Downloads a SAFE_TX proposal as EIP-712 typed data. Refuses when the payload would hash to
+ * something other than the proposal's safeTxHash, since signatures over it could never be imported.
+ */
+export function downloadSafeTxTypedData(proposal: ProposalRecord, safeVersion: string) {
+  const typedData = toSafeTxTypedData({
+    chainId: proposal.chainId,
+    safeAddress: proposal.safeAddress,
+    safeVersion,
+    safeTransaction: (proposal.payload as SafeTxPayload).safeTransaction
+  });
+  if (hashSafeTxTypedData(typedData).toLowerCase() !== proposal.safeTxHash.toLowerCase()) {
+    throw new Error('Exported payload does not match the Safe transaction hash');
+  }
+  downloadJson(exportName(proposal, 'eip712'), typedData);
+}
+
+/**
+ * Downloads a proposal's batch as a Transaction Builder file, for owners who work in Safe{Wallet}.
+ */
+export function downloadTransactionBuilderBatch(proposal: ProposalRecord, createdBy?: string) {
+  downloadJson(exportName(proposal, 'tx-builder'), toTransactionBuilderBatch({
+    chainId: proposal.chainId,
+    safeAddress: proposal.safeAddress,
+    transactions: proposal.payload.transactions ?? [],
+    name: proposal.description || 'Fondu recovery',
+    description: proposal.description ?? '',
+    createdBy
+  }));
+}
+
+// A signature found in imported text; `signer` is only known when the source named it.
+export type ImportedSignature = {
+  signer: string | null;
+  data: string;
+};
+
+const splitSignatureHex = (hex: string): string[] => {
+  const body = hex.replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]+$/.test(body) || body.length === 0 || body.length % SIGNATURE_HEX_LENGTH !== 0) {
+    throw new Error('Signatures must be 65-byte hex strings');
+  }
+  const parts: string[] = [];
+  for (let i = 0; i < body.length; i += SIGNATURE_HEX_LENGTH) parts.push(`0x${body.slice(i, i + SIGNATURE_HEX_LENGTH)}`);
+  return parts;
+};
+
+const fromJson = (value: unknown): ImportedSignature[] => {
+  if (Array.isArray(value)) return value.flatMap(fromJson);
+  if (typeof value === 'string') return splitSignatureHex(value).map(data => ({ signer: null, data }));
+  if (!value || typeof value !== 'object') return [];
+
+  const entry = value as Record<string, unknown>;
+  const signer = typeof entry.signer === 'string' ? entry.signer : typeof entry.owner === 'string' ? entry.owner : null;
+  // { signer, data } (this app), { owner, signature } (Safe Transaction Service confirmations).
+  const single = typeof entry.data === 'string' && signer ? entry.data : typeof entry.signature === 'string' ? entry.signature : null;
+  if (single) return splitSignatureHex(single).map(data => ({ signer, data }));
+  if (entry.signatures !== undefined) return fromJson(entry.signatures);
+  if (entry.confirmations !== undefined) return fromJson(entry.confirmations);
+  return [];
+};
+
+/**
+ * Pulls owner signatures out of pasted text or an uploaded file: one or more hex signatures
+ * (separate or concatenated, as `execTransaction` expects them), or JSON from this app,
+ * the Safe Transaction Service (`confirmations`) or a signed payload with `signature(s)`.
+ * Only 65-byte ECDSA signatures are accepted.
+ */
+export function parseSignatureImport(text: string): ImportedSignature[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const found = /^[[{]/.test(trimmed)
+    ? fromJson(JSON.parse(trimmed))
+    : trimmed.split(/[\s,]+/).filter(Boolean).flatMap(hex => splitSignatureHex(hex).map(data => ({ signer: null, data })));
+
+  found.forEach(({ data }) => {
+    const v = parseInt(data.slice(-2), 16);
+    if (v < 27) throw new Error('Contract and approved-hash signatures cannot be imported');
+  });
+  if (found.length === 0) throw new Error('No signatures found');
+  return found;
+}
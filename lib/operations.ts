@@ -0,0 +1,326 @@
+import { parseAbi, parseEventLogs, type PublicClient } from 'viem';
+import type { MetaTransactionData } from '@safe-global/types-kit';
+import { recordRecovery } from './recoveries';
+import { authFetch } from './authFetch';
+import { getChainConfig } from './chains';
+import { getReadClient } from './readClients';
+
+export type OperationKind = 'userOp' | 'safeTx';
+export type OperationStatus = 'PENDING' | 'CONFIRMED' | 'REVERTED' | 'DROPPED' | 'REPLACED' | 'TIMEOUT';
+
+// A broadcast userOp or Safe transaction, persisted in localStorage until dismissed.
+// `hash` is the userOp hash or the Safe tx hash; `nonce` is the EntryPoint or Safe nonce it consumes.
+// `executor` and `transactions` let the ledger be written if the tab that sent it is gone.
+export type TrackedOperation = {
+  hash: string;
+  kind: OperationKind;
+  chainId: number;
+  safeAddress: string;
+  nonce: string;
+  entryPoint: string | null; // userOp only
+  fromBlock: string; // block number at submission, for replacement lookups
+  transactionHash: string | null;
+  description: string;
+  status: OperationStatus;
+  error: string | null;
+  executor: string;
+  transactions: MetaTransactionData[];
+  proposalId: string | null;
+  submittedAt: number;
+  updatedAt: number;
+};
+
+export type OperationClients = {
+  publicClient: PublicClient;
+  bundlerUrl: string;
+};
+
+const STORAGE_KEY = 'tracked_operations';
+// Hashes whose ledger entry some tab has already taken on; see claimSettlement.
+const SETTLED_KEY = 'settled_operations';
+const MAX_SETTLED = 200;
+const INITIAL_POLL_MS = 2000;
+const MAX_POLL_MS = 15_000;
+export const OPERATION_TIMEOUT_MS = 5 * 60_000;
+
+const SAFE_EVENTS_ABI = parseAbi([
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+  'event ExecutionFailure(bytes32 txHash, uint256 payment)',
+  'function nonce() view returns (uint256)'
+]);
+const ENTRY_POINT_ABI = parseAbi(['function getNonce(address sender, uint192 key) view returns (uint256)']);
+
+// --- Store ---
+
+let cache: TrackedOperation[] | null = null;
+const listeners = new Set<() => void>();
+const EMPTY: TrackedOperation[] = [];
+// Hashes some caller in this tab is already polling, so resuming doesn't double-poll them.
+const active = new Set<string>();
+
+const read = (): TrackedOperation[] => {
+  if (typeof window === 'undefined') return EMPTY;
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const write = (operations: TrackedOperation[]) => {
+  cache = operations;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(operations));
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Snapshot of every tracked operation, newest first. Stable between changes (for useSyncExternalStore).
+ */
+export function getOperations(): TrackedOperation[] {
+  if (cache === null) cache = read();
+  return cache;
+}
+
+export const getServerOperations = () => EMPTY;
+
+/**
+ * Subscribes to store changes, including writes made by other tabs.
+ */
+export function subscribeOperations(listener: () => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+const saveOperation = (operation: TrackedOperation) => {
+  const rest = getOperations().filter(o => o.hash !== operation.hash);
+  write([operation, ...rest]);
+};
+
+export function dismissOperation(hash: string) {
+  write(getOperations().filter(o => o.hash !== hash));
+}
+
+/**
+ * Persists a freshly broadcast operation before anything waits on it, so a reload can pick it up.
+ */
+export async function registerOperation(
+  publicClient: PublicClient,
+  fields: Pick<TrackedOperation, 'hash' | 'kind' | 'chainId' | 'safeAddress' | 'nonce' | 'description' | 'executor' | 'transactions'>
+    & Partial<Pick<TrackedOperation, 'entryPoint' | 'transactionHash' | 'proposalId'>>
+): Promise<TrackedOperation> {
+  const fromBlock = await publicClient.getBlockNumber().catch(() => BigInt(0));
+  const now = Date.now();
+  const operation: TrackedOperation = {
+    entryPoint: null,
+    transactionHash: null,
+    proposalId: null,
+    ...fields,
+    fromBlock: fromBlock.toString(),
+    status: 'PENDING',
+    error: null,
+    submittedAt: now,
+    updatedAt: now
+  };
+  saveOperation(operation);
+  return operation;
+}
+
+// --- Polling ---
+
+const bundlerRequest = async <T>(bundlerUrl: string, method: string, params: unknown[]): Promise<T> => {
+  const resp = await fetch(bundlerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+  });
+  const body = await resp.json();
+  if (body.error) throw new Error(body.error.message || `${method} failed`);
+  return body.result as T;
+};
+
+type Update = Partial<Pick<TrackedOperation, 'status' | 'transactionHash' | 'error'>>;
+// `unseen` marks a poll where neither the bundler / mempool nor the chain knew anything about the operation.
+type Check = Update & { unseen?: boolean };
+
+const checkUserOperation = async (op: TrackedOperation, { publicClient, bundlerUrl }: OperationClients): Promise<Check> => {
+  const receipt = await bundlerRequest<{ success: boolean; receipt: { transactionHash: string } } | null>(bundlerUrl, 'eth_getUserOperationReceipt', [op.hash]);
+  if (receipt) {
+    return receipt.success
+      ? { status: 'CONFIRMED', transactionHash: receipt.receipt.transactionHash }
+      : { status: 'REVERTED', transactionHash: receipt.receipt.transactionHash, error: 'UserOperation reverted on-chain' };
+  }
+
+  const known = await bundlerRequest<unknown>(bundlerUrl, 'eth_getUserOperationByHash', [op.hash]);
+  if (known || !op.entryPoint) return {};
+
+  // The bundler forgot it. If the EntryPoint nonce moved past ours, another operation took the slot;
+  // otherwise keep polling, and call it dropped only if it is still unseen at the deadline.
+  const nonce = BigInt(op.nonce);
+  const current = await publicClient.readContract({
+    address: op.entryPoint as `0x${string}`,
+    abi: ENTRY_POINT_ABI,
+    functionName: 'getNonce',
+    args: [op.safeAddress as `0x${string}`, nonce >> BigInt(64)]
+  });
+  return current > nonce ? { status: 'REPLACED', error: 'Another operation used this nonce' } : { unseen: true };
+};
+
+// Looks for our Safe tx among the Safe's executions since submission (e.g. a wallet speed-up re-sent it under another hash).
+const findSafeExecution = async (op: TrackedOperation, publicClient: PublicClient) => {
+  const logs = await publicClient.getLogs({
+    address: op.safeAddress as `0x${string}`,
+    events: SAFE_EVENTS_ABI.filter(item => item.type === 'event'),
+    fromBlock: BigInt(op.fromBlock)
+  });
+  return logs.find(log => log.args.txHash?.toLowerCase() === op.hash.toLowerCase()) ?? null;
+};
+
+const checkSafeTransaction = async (op: TrackedOperation, { publicClient }: OperationClients): Promise<Check> => {
+  if (op.transactionHash) {
+    const receipt = await publicClient.getTransactionReceipt({ hash: op.transactionHash as `0x${string}` }).catch(() => null);
+    if (receipt) {
+      if (receipt.status === 'reverted') return { status: 'REVERTED', error: 'Transaction reverted' };
+      const failed = parseEventLogs({ abi: SAFE_EVENTS_ABI, eventName: 'ExecutionFailure', logs: receipt.logs })
+        .some(log => log.address.toLowerCase() === op.safeAddress.toLowerCase());
+      return failed ? { status: 'REVERTED', error: 'Safe transaction failed (ExecutionFailure)' } : { status: 'CONFIRMED' };
+    }
+    const pending = await publicClient.getTransaction({ hash: op.transactionHash as `0x${string}` }).catch(() => null);
+    if (pending) return {};
+  }
+
+  const safeNonce = await publicClient.readContract({ address: op.safeAddress as `0x${string}`, abi: SAFE_EVENTS_ABI, functionName: 'nonce' });
+  if (safeNonce > BigInt(op.nonce)) {
+    const execution = await findSafeExecution(op, publicClient);
+    if (!execution) return { status: 'REPLACED', error: 'Another Safe transaction used this nonce' };
+    return execution.eventName === 'ExecutionSuccess'
+      ? { status: 'CONFIRMED', transactionHash: execution.transactionHash }
+      : { status: 'REVERTED', transactionHash: execution.transactionHash, error: 'Safe transaction failed (ExecutionFailure)' };
+  }
+  // Not visible on the public RPC is not the same as dropped: underpriced or privately relayed
+  // transactions can land minutes later, so it is only called dropped once the deadline passes.
+  return { unseen: true };
+};
+
+/**
+ * Polls an operation with exponential backoff until it settles or `timeoutMs` passes,
+ * persisting every status change. Resolves with the final state: at the deadline an operation
+ * nothing has seen on the last poll is DROPPED, one that is still known is a TIMEOUT.
+ */
+export async function waitForOperation(operation: TrackedOperation, clients: OperationClients, timeoutMs = OPERATION_TIMEOUT_MS): Promise<TrackedOperation> {
+  active.add(operation.hash);
+  const deadline = Date.now() + timeoutMs;
+  let op = operation;
+  let delay = INITIAL_POLL_MS;
+
+  try {
+    while (op.status === 'PENDING') {
+      await new Promise(r => setTimeout(r, Math.min(delay, Math.max(deadline - Date.now(), 0))));
+      let check: Check;
+      try {
+        check = op.kind === 'userOp' ? await checkUserOperation(op, clients) : await checkSafeTransaction(op, clients);
+      } catch (e) {
+        console.warn(`[Operations] Poll failed for ${op.hash}`, e);
+        check = {};
+      }
+      const { unseen, ...found } = check;
+      let update: Update = found;
+      if (!update.status && Date.now() >= deadline) {
+        update = unseen
+          ? { status: 'DROPPED', error: op.kind === 'userOp' ? 'Bundler dropped the operation' : 'Transaction is not in the mempool or on-chain' }
+          : { status: 'TIMEOUT', error: 'Still pending; check again later' };
+      }
+      if (update.status || update.transactionHash) {
+        op = { ...op, ...update, updatedAt: Date.now() };
+        saveOperation(op);
+      }
+      delay = Math.min(delay * 1.5, MAX_POLL_MS);
+    }
+    return op;
+  } finally {
+    active.delete(operation.hash);
+  }
+}
+
+/**
+ * Error carrying the operation that failed to confirm. Timeouts are not failures:
+ * the operation stays in the pending panel and may still land.
+ */
+export const operationError = (op: TrackedOperation) =>
+  Object.assign(new Error(op.error ?? `Operation ${op.status.toLowerCase()}`), { operation: op });
+
+export const isOperationTimeout = (e: unknown) =>
+  (e as { operation?: TrackedOperation })?.operation?.status === 'TIMEOUT';
+
+// --- Resume ---
+
+/**
+ * Takes on writing the ledger entry for a settled operation. Every open tab resumes the same
+ * stored operations, so only the first tab to claim a hash settles it; the rest get false.
+ */
+export function claimSettlement(hash: string): boolean {
+  let settled: string[];
+  try {
+    settled = JSON.parse(localStorage.getItem(SETTLED_KEY) || '[]');
+  } catch {
+    settled = [];
+  }
+  if (settled.includes(hash)) return false;
+  localStorage.setItem(SETTLED_KEY, JSON.stringify([...settled, hash].slice(-MAX_SETTLED)));
+  return true;
+}
+
+// Writes what a closed tab never got to: the ledger entry and, for proposals, the executed status.
+const settleResumed = async (op: TrackedOperation) => {
+  const config = getChainConfig(op.chainId);
+  if (!config || (op.status !== 'CONFIRMED' && op.status !== 'REVERTED') || !claimSettlement(op.hash)) return;
+  const result = op.transactionHash ? { kind: op.kind, hash: op.hash, transactionHash: op.transactionHash } : undefined;
+  await recordRecovery({
+    config,
+    safeAddress: op.safeAddress,
+    transactions: op.transactions,
+    status: op.status === 'CONFIRMED' ? 'CONFIRMED' : 'FAILED',
+    result
+  });
+  if (op.proposalId && op.status === 'CONFIRMED') {
+    await authFetch(`/api/proposals/${op.proposalId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 'EXECUTED', executedHash: op.transactionHash })
+    }).catch(e => console.error('[Operations] Failed to mark proposal executed', e));
+  }
+};
+
+/**
+ * Polls an operation nobody in this tab is waiting on (left over from a reload, or a
+ * TIMEOUT being re-checked) over the chain's public RPC, and settles it when it lands.
+ */
+export async function resumeOperation(operation: TrackedOperation, timeoutMs = OPERATION_TIMEOUT_MS): Promise<TrackedOperation> {
+  const config = getChainConfig(operation.chainId);
+  if (!config || active.has(operation.hash)) return operation;
+  const pending = { ...operation, status: 'PENDING' as const, error: null };
+  saveOperation(pending);
+  const settled = await waitForOperation(pending, { publicClient: getReadClient(operation.chainId), bundlerUrl: config.bundlerUrl }, timeoutMs);
+  await settleResumed(settled);
+  return settled;
+}
+
+/**
+ * Picks up every operation still PENDING from a previous session. Call once on load.
+ */
+export function resumePendingOperations() {
+  getOperations()
+    .filter(op => op.status === 'PENDING' && !active.has(op.hash))
+    .forEach(op => {
+      const remaining = Math.max(op.submittedAt + OPERATION_TIMEOUT_MS - Date.now(), 0);
+      resumeOperation(op, remaining).catch(e => console.error(`[Operations] Resume failed for ${op.hash}`, e));
+    });
+}
@@ -0,0 +1,127 @@
+import { encodeFunctionData, getAddress, isAddress, zeroAddress } from 'viem';
+import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
+
+// Head of the Safe's owner linked list; `prevOwner` of the first owner.
+const SENTINEL_OWNERS = '0x0000000000000000000000000000000000000001';
+
+const OWNER_MANAGER_ABI = [
+  { type: 'function', name: 'addOwnerWithThreshold', stateMutability: 'nonpayable', inputs: [{ name: 'owner', type: 'address' }, { name: '_threshold', type: 'uint256' }], outputs: [] },
+  { type: 'function', name: 'removeOwner', stateMutability: 'nonpayable', inputs: [{ name: 'prevOwner', type: 'address' }, { name: 'owner', type: 'address' }, { name: '_threshold', type: 'uint256' }], outputs: [] },
+  { type: 'function', name: 'swapOwner', stateMutability: 'nonpayable', inputs: [{ name: 'prevOwner', type: 'address' }, { name: 'oldOwner', type: 'address' }, { name: 'newOwner', type: 'address' }], outputs: [] },
+  { type: 'function', name: 'changeThreshold', stateMutability: 'nonpayable', inputs: [{ name: '_threshold', type: 'uint256' }], outputs: [] }
+] as const;
+
+export type OwnerChange =
+  | { kind: 'swap'; oldOwner: string; newOwner: string }
+  | { kind: 'add'; owner: string; threshold: number }
+  | { kind: 'remove'; owner: string; threshold: number }
+  | { kind: 'threshold'; threshold: number };
+
+// Outcome of the guardrails: errors block the change, warnings need the user's acknowledgement.
+export type OwnerChangeCheck = {
+  errors: string[];
+  warnings: string[];
+  owners: string[]; // Owner set after the change
+  threshold: number; // Threshold after the change
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * `owners` must be in `getOwners()` order: the Safe keeps them in a linked list and
+ * swapOwner / removeOwner need the entry pointing at the owner being replaced.
+ */
+export function prevOwnerOf(owners: string[], owner: string): `0x${string}` {
+  const index = owners.findIndex(o => sameAddress(o, owner));
+  if (index === -1) throw new Error(`${owner} is not an owner of this vault`);
+  return index === 0 ? SENTINEL_OWNERS : getAddress(owners[index - 1]);
+}
+
+/**
+ * Checks an owner change against the vault's current owners and threshold. Blocks invalid
+ * addresses, duplicate or unknown owners and a threshold outside 1..owner count, and warns
+ * when `currentUser` would take themselves off the vault.
+ */
+export function checkOwnerChange({ owners, threshold, change, safeAddress, currentUser }: {
+  owners: string[];
+  threshold: number;
+  change: OwnerChange;
+  safeAddress: string;
+  currentUser?: string;
+}): OwnerChangeCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const isOwner = (address: string) => owners.some(o => sameAddress(o, address));
+  const checkNewOwner = (address: string) => {
+    if (!isAddress(address)) errors.push('New owner is not a valid address');
+    else if (sameAddress(address, zeroAddress) || sameAddress(address, SENTINEL_OWNERS)) errors.push('New owner cannot be the zero or sentinel address');
+    else if (sameAddress(address, safeAddress)) errors.push('The vault cannot own itself');
+    else if (isOwner(address)) errors.push('Address is already an owner');
+  };
+
+  let nextOwners = owners;
+  let nextThreshold = threshold;
+  switch (change.kind) {
+    case 'swap':
+      if (!isOwner(change.oldOwner)) errors.push('Owner to replace is not an owner');
+      checkNewOwner(change.newOwner);
+      nextOwners = owners.map(o => sameAddress(o, change.oldOwner) ? change.newOwner : o);
+      if (currentUser && sameAddress(change.oldOwner, currentUser)) warnings.push('You are replacing your own wallet and will no longer be able to sign for this vault');
+      break;
+    case 'add':
+      checkNewOwner(change.owner);
+      nextOwners = [...owners, change.owner];
+      nextThreshold = change.threshold;
+      break;
+    case 'remove':
+      if (!isOwner(change.owner)) errors.push('Address is not an owner');
+      else if (owners.length === 1) errors.push('The last owner cannot be removed');
+      nextOwners = owners.filter(o => !sameAddress(o, change.owner));
+      nextThreshold = change.threshold;
+      if (currentUser && sameAddress(change.owner, currentUser)) warnings.push('You are removing yourself and will no longer be able to sign for this vault');
+      break;
+    case 'threshold':
+      nextThreshold = change.threshold;
+      if (change.threshold === threshold) errors.push('Threshold is unchanged');
+      break;
+  }
+
+  if (!Number.isInteger(nextThreshold) || nextThreshold < 1) errors.push('Threshold must be at least 1');
+  else if (nextThreshold > nextOwners.length) errors.push(`Threshold cannot exceed the ${nextOwners.length} owner${nextOwners.length === 1 ? '' : 's'} left after the change`);
+  else if (nextThreshold === 1 && nextOwners.length > 1 && threshold > 1) warnings.push('Any single owner will be able to move funds on their own');
+
+  return { errors, warnings, owners: nextOwners, threshold: nextThreshold };
+}
+
+export function describeOwnerChange(change: OwnerChange): string {
+  switch (change.kind) {
+    case 'swap': return `Replace owner ${short(change.oldOwner)} with ${short(change.newOwner)}`;
+    case 'add': return `Add owner ${short(change.owner)} (threshold ${change.threshold})`;
+    case 'remove': return `Remove owner ${short(change.owner)} (threshold ${change.threshold})`;
+    case 'threshold': return `Change threshold to ${change.threshold}`;
+  }
+}
+
+/**
+ * The Safe self-call for an owner change. The batch runs through the same execution paths
+ * as a recovery, so it works with both Protocol Kit and Safe4337Pack vaults.
+ */
+export function buildOwnerChange(safeAddress: string, owners: string[], change: OwnerChange): MetaTransactionData {
+  let data: `0x${string}`;
+  switch (change.kind) {
+    case 'swap':
+      data = encodeFunctionData({ abi: OWNER_MANAGER_ABI, functionName: 'swapOwner', args: [prevOwnerOf(owners, change.oldOwner), getAddress(change.oldOwner), getAddress(change.newOwner)] });
+      break;
+    case 'add':
+      data = encodeFunctionData({ abi: OWNER_MANAGER_ABI, functionName: 'addOwnerWithThreshold', args: [getAddress(change.owner), BigInt(change.threshold)] });
+      break;
+    case 'remove':
+      data = encodeFunctionData({ abi: OWNER_MANAGER_ABI, functionName: 'removeOwner', args: [prevOwnerOf(owners, change.owner), getAddress(change.owner), BigInt(change.threshold)] });
+      break;
+    case 'threshold':
+      data = encodeFunctionData({ abi: OWNER_MANAGER_ABI, functionName: 'changeThreshold', args: [BigInt(change.threshold)] });
+      break;
+  }
+  return { to: getAddress(safeAddress), value: '0', data, operation: OperationType.Call };
+}
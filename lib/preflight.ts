@@ -0,0 +1,226 @@
+import { BaseError, decodeErrorResult, erc20Abi, isAddress, parseAbi, parseUnits, zeroAddress, type Hex, type PublicClient } from 'viem';
+import { simulateSafeTransactions, isUserRejection, type ExecutionParams } from './safeExecution';
+import { describeTransfers, type RecoveryTransfer } from './recoveries';
+import type { TokenConfig } from './sweep';
+
+// Safe contracts revert with short codes instead of strings (see the Safe `ErrorMessage.md`).
+const SAFE_ERROR_CODES: Record<string, string> = {
+  GS000: 'Could not finish initialization',
+  GS001: 'Threshold needs to be defined',
+  GS010: 'Not enough gas to execute Safe transaction',
+  GS011: 'Could not pay gas costs with ether',
+  GS012: 'Could not pay gas costs with token',
+  GS013: 'Safe transaction failed when gasPrice and safeTxGas were 0',
+  GS020: 'Signatures data too short',
+  GS021: 'Invalid contract signature location: inside static part',
+  GS022: 'Invalid contract signature location: length not present',
+  GS023: 'Invalid contract signature location: data not complete',
+  GS024: 'Invalid contract signature provided',
+  GS025: 'Hash has not been approved',
+  GS026: 'Invalid owner provided',
+  GS030: 'Only owners can approve a hash',
+  GS031: 'Method can only be called from this contract',
+  GS100: 'Modules have already been initialized',
+  GS101: 'Invalid module address provided',
+  GS102: 'Module has already been added',
+  GS103: 'Invalid prevModule, module pair provided',
+  GS104: 'Method can only be called from an enabled module',
+  GS200: 'Owners have already been set up',
+  GS201: 'Threshold cannot exceed owner count',
+  GS202: 'Threshold needs to be greater than 0',
+  GS203: 'Invalid owner address provided',
+  GS204: 'Address is already an owner',
+  GS205: 'Invalid prevOwner, owner pair provided',
+  GS300: 'Function not implemented',
+  GS400: 'Guard does not implement IERC165'
+};
+
+// ERC-4337 EntryPoint failure codes most likely to show up during bundler estimation.
+const ENTRYPOINT_ERROR_CODES: Record<string, string> = {
+  AA10: 'Sender already constructed',
+  AA21: 'Account did not pay prefund',
+  AA23: 'Account validation reverted',
+  AA24: 'Signature error',
+  AA25: 'Invalid account nonce',
+  AA31: 'Paymaster deposit too low',
+  AA33: 'Paymaster validation reverted',
+  AA34: 'Paymaster signature error'
+};
+
+// Solidity's Error(string) plus the ERC-6093 custom errors used by OpenZeppelin 5 tokens.
+const REVERT_ERRORS_ABI = parseAbi([
+  'error Error(string reason)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InvalidReceiver(address receiver)',
+  'error ERC20InvalidSender(address sender)'
+]);
+
+const describeCode = (text: string): string | null => {
+  const gs = text.match(/GS\d{3}/)?.[0];
+  if (gs) return `${gs}: ${SAFE_ERROR_CODES[gs] ?? 'Safe error'}`;
+  const aa = text.match(/AA\d{2}/)?.[0];
+  if (aa) return `${aa}: ${ENTRYPOINT_ERROR_CODES[aa] ?? 'EntryPoint error'}`;
+  return null;
+};
+
+const findRevertData = (error: unknown): Hex | null => {
+  if (!(error instanceof BaseError)) return null;
+  const withData = error.walk(e => typeof (e as { data?: unknown }).data === 'string') as { data?: string } | null;
+  const data = withData?.data;
+  return data && data.startsWith('0x') && data.length > 2 ? data as Hex : null;
+};
+
+/**
+ * Best-effort human readable revert reason: Error(string), Panic, ERC-6093 errors,
+ * Safe GS codes and EntryPoint AA codes. Returns null when nothing could be decoded.
+ */
+export function decodeRevertReason(error: unknown): string | null {
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const decoded = decodeErrorResult({ abi: REVERT_ERRORS_ABI, data });
+      if (decoded.errorName === 'Error') {
+        const reason = String(decoded.args[0]);
+        return describeCode(reason) ?? reason;
+      }
+      return `${decoded.errorName}(${decoded.args?.map(String).join(', ') ?? ''})`;
+    } catch {
+      // Unknown selector; fall back to codes embedded in the message.
+    }
+  }
+
+  const message = error instanceof BaseError ? `${error.shortMessage} ${error.details ?? ''}` : error instanceof Error ? error.message : String(error);
+  return describeCode(message);
+}
+
+/**
+ * Message for toasts and review screens: decoded revert reason first, then the error's own text.
+ */
+export function describeError(error: unknown): string {
+  if (isUserRejection(error)) return 'Rejected in wallet';
+  const reason = decodeRevertReason(error);
+  if (reason) return reason;
+  if (error instanceof BaseError) return error.shortMessage;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Validates a destination (and optionally an amount against the available balance).
+ * `allowList` (lowercased addresses) is passed when the address book is enforced.
+ * Returns every problem found; an empty array means the inputs are usable.
+ */
+export function validateTransferInputs({ recipient, safeAddress, amount, decimals, balance, allowList }: {
+  recipient: string;
+  safeAddress: string;
+  amount?: string;
+  decimals?: number;
+  balance?: bigint;
+  allowList?: string[];
+}): string[] {
+  const errors: string[] = [];
+  if (!isAddress(recipient)) errors.push('Destination is not a valid address');
+  else if (recipient.toLowerCase() === zeroAddress) errors.push('Destination is the zero address');
+  else if (recipient.toLowerCase() === safeAddress.toLowerCase()) errors.push('Destination is the vault itself');
+  else if (allowList && !allowList.includes(recipient.toLowerCase())) errors.push('Destination is not in the address book');
+
+  if (amount !== undefined) {
+    let raw: bigint | null = null;
+    try {
+      raw = parseUnits(amount.trim(), decimals ?? 18);
+    } catch {
+      errors.push('Amount is not a number');
+    }
+    if (raw !== null && raw <= BigInt(0)) errors.push('Amount must be greater than zero');
+    if (raw !== null && (amount.split('.')[1]?.length ?? 0) > (decimals ?? 18)) errors.push(`Amount has more than ${decimals ?? 18} decimals`);
+    if (raw !== null && balance !== undefined && raw > balance) errors.push('Amount exceeds the vault balance');
+  }
+  return errors;
+}
+
+// One destination of a transfer that splits a vault's balance.
+export type TransferSplit = {
+  recipient: string;
+  amount: string;
+};
+
+/**
+ * Validates every destination of a split transfer, then checks the total against the balance.
+ * With several destinations each problem is prefixed with the destination's position.
+ */
+export function validateSplitTransfers({ splits, safeAddress, decimals, balance, allowList }: {
+  splits: TransferSplit[];
+  safeAddress: string;
+  decimals: number;
+  balance: bigint;
+  allowList?: string[];
+}): string[] {
+  const errors: string[] = [];
+  let total = BigInt(0);
+  splits.forEach((split, i) => {
+    const rowErrors = validateTransferInputs({ recipient: split.recipient, safeAddress, amount: split.amount, decimals, allowList });
+    rowErrors.forEach(e => errors.push(splits.length > 1 ? `Destination ${i + 1}: ${e}` : e));
+    if (rowErrors.length === 0) total += parseUnits(split.amount.trim(), decimals);
+  });
+  if (errors.length === 0 && total > balance) {
+    errors.push(splits.length > 1 ? 'Amounts add up to more than the vault balance' : 'Amount exceeds the vault balance');
+  }
+  return errors;
+}
+
+// Net effect of a batch on one of the vault's assets.
+export type BalanceChange = {
+  symbol: string;
+  tokenAddress: string | null;
+  decimals: number;
+  before: bigint;
+  after: bigint;
+};
+
+export type PreflightReport = {
+  ok: boolean;
+  error: string | null;
+  path: 'userOp' | 'safeTx';
+  changes: BalanceChange[];
+  transfers: RecoveryTransfer[];
+};
+
+const readBalance = (publicClient: PublicClient, safeAddress: string, tokenAddress: string | null) => tokenAddress
+  ? publicClient.readContract({ address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: 'balanceOf', args: [safeAddress as `0x${string}`] })
+  : publicClient.getBalance({ address: safeAddress as `0x${string}` });
+
+/**
+ * Simulates a batch and works out the resulting vault balances, for the review step
+ * shown before the wallet is asked to sign.
+ */
+export async function runPreflight(params: ExecutionParams & {
+  threshold: number;
+  publicClient: PublicClient;
+  ledger: { chainObj: { id: number }; nativeSymbol: string; tokens: TokenConfig[] };
+}): Promise<PreflightReport> {
+  const { publicClient, safeAddress, transactions, is4337Enabled, ledger } = params;
+  const transfers = describeTransfers(transactions, ledger);
+
+  const totals = new Map<string, { transfer: RecoveryTransfer; amount: bigint }>();
+  transfers.forEach(t => {
+    const key = t.tokenAddress ?? 'native';
+    const entry = totals.get(key) ?? { transfer: t, amount: BigInt(0) };
+    entry.amount += BigInt(t.amount);
+    totals.set(key, entry);
+  });
+  const changes = await Promise.all(Array.from(totals.values()).map(async ({ transfer, amount }) => {
+    const before = await readBalance(publicClient, safeAddress, transfer.tokenAddress);
+    return { symbol: transfer.tokenSymbol, tokenAddress: transfer.tokenAddress, decimals: transfer.decimals, before, after: before - amount };
+  }));
+
+  const path = is4337Enabled ? 'userOp' : 'safeTx';
+  const overdrawn = changes.find(c => c.after < BigInt(0));
+  if (overdrawn) return { ok: false, error: `Insufficient ${overdrawn.symbol} balance`, path, changes, transfers };
+
+  try {
+    await simulateSafeTransactions(params);
+    return { ok: true, error: null, path, changes, transfers };
+  } catch (e) {
+    console.error('[Preflight] Simulation failed', e);
+    return { ok: false, error: describeError(e), path, changes, transfers };
+  }
+}
@@ -0,0 +1,64 @@
+import { formatUnits } from 'viem';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One day of a chain's history, in whole USDC: what still sits in tracked vaults and what has been recovered so far.
+export type ProgressPoint = {
+  date: string; // YYYY-MM-DD (UTC)
+  recoverable: number;
+  recovered: number;
+};
+
+// Shape returned by GET /api/progress, one entry per enabled chain.
+export type ChainProgress = {
+  chainId: number;
+  symbol: string;
+  recoverable: number;
+  recovered: number;
+  percent: number | null; // Share of the migration funds (recovered + still recoverable) already recovered
+  series: ProgressPoint[];
+  sparklines?: Record<string, number[]>; // Daily balance per lowercased vault address, only for a single-chain request
+};
+
+export const recoveredPercent = (recovered: number, recoverable: number): number | null =>
+  recovered + recoverable > 0 ? (recovered / (recovered + recoverable)) * 100 : null;
+
+/**
+ * Replays a chain's balance snapshots (step series, oldest first) and confirmed recoveries (oldest first)
+ * into one point per UTC day for the last `days` days. A vault's sparkline starts at its first snapshot.
+ */
+export function buildProgressSeries({ safes, snapshots, recoveries, decimals, days, now = new Date() }: {
+  safes: string[];
+  snapshots: { safeAddress: string; amount: string; createdAt: Date }[];
+  recoveries: { amount: string; confirmedAt: Date }[];
+  decimals: number;
+  days: number;
+  now?: Date;
+}): { series: ProgressPoint[]; sparklines: Record<string, number[]> } {
+  const toNumber = (raw: bigint) => Number(formatUnits(raw, decimals));
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  const latest = new Map<string, bigint>();
+  const sparklines: Record<string, number[]> = Object.fromEntries(safes.map(address => [address, []]));
+  const series: ProgressPoint[] = [];
+  let recovered = BigInt(0);
+  let s = 0;
+  let r = 0;
+
+  for (let i = days - 1; i >= 0; i--) {
+    const start = today - i * DAY_MS;
+    const end = start + DAY_MS;
+    for (; s < snapshots.length && snapshots[s].createdAt.getTime() < end; s++) latest.set(snapshots[s].safeAddress, BigInt(snapshots[s].amount));
+    for (; r < recoveries.length && recoveries[r].confirmedAt.getTime() < end; r++) recovered += BigInt(recoveries[r].amount);
+
+    let recoverable = BigInt(0);
+    safes.forEach(address => {
+      const balance = latest.get(address);
+      if (balance === undefined) return;
+      recoverable += balance;
+      sparklines[address].push(toNumber(balance));
+    });
+    series.push({ date: new Date(start).toISOString().slice(0, 10), recoverable: toNumber(recoverable), recovered: toNumber(recovered) });
+  }
+  return { series, sparklines };
+}
@@ -0,0 +1,127 @@
+import { EthSafeSignature, EthSafeTransaction } from '@safe-global/protocol-kit';
+import { SafeOperationFactory, type BaseSafeOperation } from '@safe-global/relay-kit';
+import type { MetaTransactionData, SafeTransaction, SafeTransactionData, UserOperation } from '@safe-global/types-kit';
+import { hashSafeTxTypedData, toSafeTxTypedData } from './offlineSigning';
+
+export type ProposalKind = 'SAFE_TX' | 'SAFE_OPERATION';
+export type ProposalStatus = 'PENDING' | 'EXECUTED' | 'CANCELLED';
+
+export type ProposalSignature = {
+  signer: string;
+  data: string;
+};
+
+// JSON-safe snapshots of what the owners sign. bigint fields are stored as decimal strings.
+// `transactions` keeps the original batch so the ledger can describe it after execution.
+export type SafeTxPayload = {
+  safeTransaction: SafeTransactionData;
+  transactions: MetaTransactionData[];
+};
+
+export type SafeOperationPayload = {
+  transactions: MetaTransactionData[];
+  userOperation: Record<string, string | undefined>;
+  options: {
+    moduleAddress: string;
+    entryPoint: string;
+    chainId: string;
+    validAfter?: number;
+    validUntil?: number;
+  };
+};
+
+export type ProposalPayload = SafeTxPayload | SafeOperationPayload;
+
+// Shape returned by the /api/proposals routes.
+export type ProposalRecord = {
+  id: string;
+  chainId: number;
+  safeAddress: string;
+  kind: ProposalKind;
+  safeTxHash: string;
+  nonce: string;
+  payload: ProposalPayload;
+  description: string | null;
+  status: ProposalStatus;
+  proposer: string;
+  executedHash: string | null;
+  signatures: ProposalSignature[];
+  createdAt: string;
+};
+
+const USER_OPERATION_BIGINT_FIELDS = [
+  'callGasLimit',
+  'verificationGasLimit',
+  'preVerificationGas',
+  'maxFeePerGas',
+  'maxPriorityFeePerGas',
+  'paymasterVerificationGasLimit',
+  'paymasterPostOpGasLimit'
+];
+
+export function serializeSafeTransaction(safeTransaction: SafeTransaction, transactions: MetaTransactionData[]): SafeTxPayload {
+  return { safeTransaction: { ...safeTransaction.data }, transactions };
+}
+
+export function serializeSafeOperation(safeOperation: BaseSafeOperation, transactions: MetaTransactionData[]): SafeOperationPayload {
+  const userOperation: Record<string, string | undefined> = {};
+  Object.entries(safeOperation.getUserOperation()).forEach(([key, value]) => {
+    userOperation[key] = value === undefined ? undefined : String(value);
+  });
+  const { chainId, ...options } = safeOperation.options;
+  return { transactions, userOperation, options: { ...options, chainId: chainId.toString() } };
+}
+
+/**
+ * Rebuilds an EthSafeTransaction from a stored proposal with every collected signature attached.
+ */
+export function restoreSafeTransaction(payload: SafeTxPayload, signatures: ProposalSignature[] = []): EthSafeTransaction {
+  const safeTransaction = new EthSafeTransaction(payload.safeTransaction);
+  signatures.forEach(s => safeTransaction.addSignature(new EthSafeSignature(s.signer, s.data)));
+  return safeTransaction;
+}
+
+/**
+ * Rebuilds a SafeOperation from a stored proposal with every collected signature attached.
+ */
+export function restoreSafeOperation(payload: SafeOperationPayload, signatures: ProposalSignature[] = []): BaseSafeOperation {
+  const userOperation: Record<string, string | bigint | undefined> = { ...payload.userOperation };
+  USER_OPERATION_BIGINT_FIELDS.forEach(key => {
+    const value = payload.userOperation[key];
+    if (value !== undefined) userOperation[key] = BigInt(value);
+  });
+  const safeOperation = SafeOperationFactory.createSafeOperation(userOperation as unknown as UserOperation, {
+    ...payload.options,
+    chainId: BigInt(payload.options.chainId)
+  });
+  signatures.forEach(s => safeOperation.addSignature(new EthSafeSignature(s.signer, s.data)));
+  return safeOperation;
+}
+
+/**
+ * Recomputes the hash owners sign for a proposal payload, bound to `chainId` and `safeAddress`, together
+ * with the nonce the payload really uses. Lets the server refuse payloads that do not match their safeTxHash.
+ * `safeVersion` decides whether the SafeTx domain includes chainId (Safes before 1.3.0 leave it out).
+ */
+export function hashProposalPayload({ kind, chainId, safeAddress, safeVersion, payload }: {
+  kind: ProposalKind;
+  chainId: number;
+  safeAddress: string;
+  safeVersion: string;
+  payload: ProposalPayload;
+}): { hash: string; nonce: string } {
+  if (kind === 'SAFE_OPERATION') {
+    const safeOperation = restoreSafeOperation(payload as SafeOperationPayload);
+    const { sender, nonce } = safeOperation.getUserOperation();
+    if (sender.toLowerCase() !== safeAddress.toLowerCase() || safeOperation.options.chainId !== BigInt(chainId)) {
+      throw new Error('SafeOperation belongs to a different vault or chain');
+    }
+    return { hash: safeOperation.getHash(), nonce };
+  }
+
+  const { safeTransaction } = payload as SafeTxPayload;
+  return {
+    hash: hashSafeTxTypedData(toSafeTxTypedData({ chainId, safeAddress, safeVersion, safeTransaction })),
+    nonce: String(safeTransaction.nonce)
+  };
+}
@@ -0,0 +1,130 @@
+import { formatUnits, getAddress, isAddress } from 'viem';
+import { prisma } from './prisma';
+import { getChainConfig, type ChainConfig } from './chains';
+import { getReadClient } from './readClients';
+import { loadSettings } from './settings';
+import { readTokenDecimals, scanNativeBalances, scanSafes } from './safeScanner';
+import { discoverBalances, NATIVE_DECIMALS } from './sweep';
+
+// What the public /safe pages show about a tracked vault. Registry notes, who added the vault
+// and signer identities are left out: anyone with the link can read this.
+export type PublicVault = {
+  address: string; // Checksummed
+  label: string | null;
+  version: string;
+  threshold: number;
+  owners: string[];
+  modules: string[];
+  is4337Enabled: boolean;
+  balanceUSDC: string;
+  balanceNative: string;
+  assets: { symbol: string; amount: string }[]; // Every configured asset holding something, native first
+};
+
+export type PublicChainSummary = {
+  chain: Pick<ChainConfig, 'id' | 'name' | 'explorer' | 'nativeSymbol'>;
+  totalUSDC: string;
+  vaults: Omit<PublicVault, 'owners' | 'modules' | 'assets'>[];
+};
+
+/**
+ * The chain's config when it is configured and not switched off by an admin, otherwise null.
+ */
+export async function getPublicChain(chainId: number): Promise<ChainConfig | null> {
+  const config = Number.isInteger(chainId) ? getChainConfig(chainId) : undefined;
+  if (!config) return null;
+  const { disabledChains } = await loadSettings();
+  return disabledChains.includes(chainId) ? null : config;
+}
+
+const readUsdcDecimals = (config: ChainConfig) => readTokenDecimals(
+  getReadClient(config.id),
+  config.usdcAddress,
+  config.tokens.find(t => t.address.toLowerCase() === config.usdcAddress.toLowerCase())?.decimals ?? 6
+);
+
+const publicChain = (config: ChainConfig): PublicChainSummary['chain'] => ({
+  id: config.id,
+  name: config.name,
+  explorer: config.explorer,
+  nativeSymbol: config.nativeSymbol
+});
+
+/**
+ * Every tracked vault on `chainId` with its USDC and native balance, read through the public RPC.
+ * Null when the chain is unknown or disabled; addresses that are no longer Safes are skipped.
+ */
+export async function loadPublicChainSummary(chainId: number): Promise<PublicChainSummary | null> {
+  const config = await getPublicChain(chainId);
+  if (!config) return null;
+
+  const tracked = await prisma.trackedSafe.findMany({ where: { chainId }, orderBy: { createdAt: 'asc' }, select: { address: true, label: true } });
+  if (tracked.length === 0) return { chain: publicChain(config), totalUSDC: '0', vaults: [] };
+
+  const client = getReadClient(chainId);
+  const addresses = tracked.map(t => t.address);
+  const [scanned, native, usdcDecimals] = await Promise.all([
+    scanSafes(client, addresses, { tokenAddress: config.usdcAddress }),
+    scanNativeBalances(client, addresses),
+    readUsdcDecimals(config)
+  ]);
+  const nativeByAddress = new Map(native.map(n => [n.address.toLowerCase(), n.raw]));
+  const labels = new Map(tracked.map(t => [t.address, t.label]));
+
+  let total = BigInt(0);
+  const vaults = scanned.filter(s => s.isSafe).map(s => {
+    const usdc = s.tokenBalance ?? BigInt(0);
+    total += usdc;
+    return {
+      address: s.address,
+      label: labels.get(s.address.toLowerCase()) ?? null,
+      version: s.version,
+      threshold: s.threshold,
+      is4337Enabled: s.modules.some(m => m.toLowerCase() === config.moduleAddress.toLowerCase()),
+      balanceUSDC: formatUnits(usdc, usdcDecimals),
+      balanceNative: formatUnits(nativeByAddress.get(s.address.toLowerCase()) ?? BigInt(0), NATIVE_DECIMALS)
+    };
+  });
+
+  return { chain: publicChain(config), totalUSDC: formatUnits(total, usdcDecimals), vaults };
+}
+
+/**
+ * One tracked vault as read from the public RPC, or null when the chain is unknown or disabled,
+ * the address is not in the registry for that chain, or it is not a Safe.
+ */
+export async function loadPublicVault(chainId: number, address: string): Promise<{ chain: PublicChainSummary['chain']; vault: PublicVault } | null> {
+  const config = await getPublicChain(chainId);
+  if (!config || !isAddress(address)) return null;
+
+  const tracked = await prisma.trackedSafe.findUnique({
+    where: { chainId_address: { chainId, address: address.toLowerCase() } },
+    select: { label: true }
+  });
+  if (!tracked) return null;
+
+  const client = getReadClient(chainId);
+  const [[scanned], assets, usdcDecimals] = await Promise.all([
+    scanSafes(client, [address], { tokenAddress: config.usdcAddress }),
+    discoverBalances(client, getAddress(address), config.tokens, config.nativeSymbol),
+    readUsdcDecimals(config)
+  ]);
+  if (!scanned?.isSafe) return null;
+
+  const native = assets.find(a => a.address === null)?.raw ?? BigInt(0);
+  return {
+    chain: publicChain(config),
+    vault: {
+      address: scanned.address,
+      label: tracked.label,
+      version: scanned.version,
+      threshold: scanned.threshold,
+      owners: scanned.owners.map(o => getAddress(o)),
+      modules: scanned.modules,
+      is4337Enabled: scanned.modules.some(m => m.toLowerCase() === config.moduleAddress.toLowerCase()),
+      balanceUSDC: formatUnits(scanned.tokenBalance ?? BigInt(0), usdcDecimals),
+      balanceNative: formatUnits(native, NATIVE_DECIMALS),
+      assets: assets.map(a => ({ symbol: a.symbol, amount: formatUnits(a.raw, a.decimals) }))
+    }
+  };
+}
@@ -0,0 +1,23 @@
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { getChainConfig } from './chains';
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Read-only client on the chain's public RPC. Reads go through this instead of
+ * the wallet provider so scanning a chain never forces `wallet.switchChain`.
+ */
+export function getReadClient(chainId: number): PublicClient {
+  const cached = clients.get(chainId);
+  if (cached) return cached;
+
+  const config = getChainConfig(chainId);
+  if (!config) throw new Error(`Chain ${chainId} is not configured`);
+
+  const client = createPublicClient({
+    chain: config.chainObj,
+    transport: http(undefined, { retryCount: 3 })
+  }) as PublicClient;
+  clients.set(chainId, client);
+  return client;
+}
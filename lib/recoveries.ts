@@ -0,0 +1,97 @@
+import { decodeFunctionData, erc20Abi } from 'viem';
+import type { MetaTransactionData } from '@safe-global/types-kit';
+import type { ExecutionResult } from './safeExecution';
+import { NATIVE_DECIMALS, type TokenConfig } from './sweep';
+import { authFetch } from './authFetch';
+
+export type RecoveryStatus = 'PENDING' | 'CONFIRMED' | 'FAILED';
+
+// A single asset movement extracted from a Safe batch.
+export type RecoveryTransfer = {
+  tokenAddress: string | null;
+  tokenSymbol: string;
+  amount: string;
+  decimals: number;
+  destination: string;
+};
+
+// Shape returned by GET /api/recoveries.
+export type RecoveryRecord = RecoveryTransfer & {
+  id: string;
+  chainId: number;
+  safeAddress: string;
+  txHash: string | null;
+  userOpHash: string | null;
+  safeTxHash: string | null;
+  status: RecoveryStatus;
+  createdAt: string;
+  executor: { walletAddress: string; email: string | null; name: string | null } | null;
+};
+
+type LedgerConfig = {
+  chainObj: { id: number };
+  nativeSymbol: string;
+  tokens: TokenConfig[];
+};
+
+/**
+ * Turns the MetaTransactionData of a recovery batch into ledger transfers.
+ * Native value transfers and ERC-20 `transfer` calls are recognised; anything else is ignored.
+ */
+export function describeTransfers(transactions: MetaTransactionData[], config: LedgerConfig): RecoveryTransfer[] {
+  const transfers: RecoveryTransfer[] = [];
+  transactions.forEach(tx => {
+    if (BigInt(tx.value || '0') > BigInt(0)) {
+      transfers.push({ tokenAddress: null, tokenSymbol: config.nativeSymbol, amount: BigInt(tx.value).toString(), decimals: NATIVE_DECIMALS, destination: tx.to.toLowerCase() });
+    }
+    if (!tx.data || tx.data === '0x') return;
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data: tx.data as `0x${string}` });
+      if (functionName !== 'transfer') return;
+      const [to, amount] = args;
+      const token = config.tokens.find(t => t.address.toLowerCase() === tx.to.toLowerCase());
+      transfers.push({
+        tokenAddress: tx.to.toLowerCase(),
+        tokenSymbol: token?.symbol ?? `${tx.to.slice(0, 6)}...${tx.to.slice(-4)}`,
+        amount: amount.toString(),
+        decimals: token?.decimals ?? 0,
+        destination: to.toLowerCase()
+      });
+    } catch {
+      // Not an ERC-20 call (e.g. module or owner management); nothing to record.
+    }
+  });
+  return transfers;
+}
+
+/**
+ * Writes the outcome of a recovery batch to the ledger. Failures are logged, never thrown,
+ * so a ledger outage cannot mask a transfer that already happened on-chain.
+ */
+export async function recordRecovery({ config, safeAddress, transactions, status, result }: {
+  config: LedgerConfig;
+  safeAddress: string;
+  transactions: MetaTransactionData[];
+  status: RecoveryStatus;
+  result?: ExecutionResult;
+}) {
+  const transfers = describeTransfers(transactions, config);
+  if (transfers.length === 0) return;
+  try {
+    await authFetch('/api/recoveries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chainId: config.chainObj.id,
+        safeAddress,
+        transfers,
+        status,
+        txHash: result?.transactionHash,
+        userOpHash: result?.kind === 'userOp' ? result.hash : undefined,
+        safeTxHash: result?.kind === 'safeTx' ? result.hash : undefined
+      })
+    });
+  } catch (e) {
+    console.error('[Ledger] Failed to record recovery', e);
+  }
+}
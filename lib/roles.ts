@@ -0,0 +1,24 @@
+// Mirrors the Prisma `Role` enum so client components can use it without importing the Prisma client.
+export type Role = 'ADMIN' | 'OPERATOR' | 'VIEWER';
+
+// Lowest to highest: each role can do everything the ones before it can.
+export const ROLES: Role[] = ['VIEWER', 'OPERATOR', 'ADMIN'];
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  VIEWER: 'Sees balances, proposals and the ledger',
+  OPERATOR: 'Proposes, signs and executes recoveries',
+  ADMIN: 'Manages vaults, networks, the allow-list and roles'
+};
+
+export const hasRole = (role: Role | null | undefined, minimum: Role) =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+
+// The signed-in user as returned by /api/auth/sync and /api/users.
+export type UserRecord = {
+  id: string;
+  walletAddress: string;
+  email: string | null;
+  name: string | null;
+  role: Role;
+  createdAt: string;
+};
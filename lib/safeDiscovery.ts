@@ -0,0 +1,91 @@
+import { decodeEventLog, getAddress, numberToHex, parseAbiItem, sliceHex, toEventSelector, type Hex, type PublicClient } from 'viem';
+
+// Emitted by the Safe proxy itself during setup(); owners are not indexed, so
+// matching has to happen client-side.
+const SAFE_SETUP_EVENT = parseAbiItem('event SafeSetup(address indexed initiator, address[] owners, uint256 threshold, address initializer, address fallbackHandler)');
+const SAFE_SETUP_TOPIC = toEventSelector(SAFE_SETUP_EVENT);
+// Emitted by SafeProxyFactory. v1.4.1 indexes `proxy`, v1.3.0 does not; the topic is the same.
+const PROXY_CREATION_TOPIC = toEventSelector('event ProxyCreation(address proxy, address singleton)');
+
+export const DEFAULT_DISCOVERY_LOOKBACK = BigInt(1_000_000);
+export const DEFAULT_DISCOVERY_CHUNK = BigInt(10_000);
+
+export type DiscoveredSafe = {
+  address: string; // Checksummed proxy address
+  setupOwner: string; // The searched address found in the SafeSetup owners
+  blockNumber: bigint;
+  transactionHash: string;
+  factory: string | null; // Factory that emitted ProxyCreation in the same tx, if any
+};
+
+export type DiscoveryProgress = {
+  fromBlock: bigint;
+  toBlock: bigint;
+  scannedTo: bigint;
+  found: number;
+};
+
+type RawLog = { address: Hex; topics: Hex[]; data: Hex; blockNumber: Hex | null; transactionHash: Hex | null };
+
+const proxyFromCreationLog = (log: RawLog) =>
+  getAddress(log.topics.length > 1 ? sliceHex(log.topics[1], 12) : sliceHex(log.data, 12, 32));
+
+/**
+ * Scans SafeSetup / ProxyCreation logs in `[fromBlock, toBlock]` for Safes that were
+ * set up with any of `owners`. Returns setup-time matches; callers should re-check
+ * current ownership since owners may have been swapped since.
+ */
+export async function discoverSafesByOwner(
+  publicClient: PublicClient,
+  owners: string[],
+  options: { fromBlock: bigint; toBlock: bigint; chunkSize?: bigint; onProgress?: (progress: DiscoveryProgress) => void; signal?: AbortSignal }
+): Promise<DiscoveredSafe[]> {
+  const { fromBlock, toBlock, chunkSize = DEFAULT_DISCOVERY_CHUNK, onProgress, signal } = options;
+  const wanted = new Set(owners.map(o => o.toLowerCase()));
+  const found = new Map<string, DiscoveredSafe>();
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    if (signal?.aborted) break;
+    const end = start + chunkSize - BigInt(1) < toBlock ? start + chunkSize - BigInt(1) : toBlock;
+
+    const logs = await publicClient.request({
+      method: 'eth_getLogs',
+      params: [{ fromBlock: numberToHex(start), toBlock: numberToHex(end), topics: [[SAFE_SETUP_TOPIC, PROXY_CREATION_TOPIC]] }]
+    }) as RawLog[];
+
+    // proxy address (lowercase) + tx hash -> factory that created it
+    const factories = new Map<string, string>();
+    for (const log of logs) {
+      if (log.topics[0] !== PROXY_CREATION_TOPIC || !log.transactionHash) continue;
+      try {
+        factories.set(`${proxyFromCreationLog(log).toLowerCase()}:${log.transactionHash}`, getAddress(log.address));
+      } catch {
+        // Unrelated event sharing the selector with a short payload
+      }
+    }
+
+    for (const log of logs) {
+      if (log.topics[0] !== SAFE_SETUP_TOPIC || !log.transactionHash) continue;
+      let setupOwners: readonly string[];
+      try {
+        setupOwners = decodeEventLog({ abi: [SAFE_SETUP_EVENT], data: log.data, topics: log.topics as [Hex, ...Hex[]] }).args.owners;
+      } catch {
+        continue;
+      }
+      const match = setupOwners.find(o => wanted.has(o.toLowerCase()));
+      const address = getAddress(log.address);
+      if (!match || found.has(address)) continue;
+      found.set(address, {
+        address,
+        setupOwner: getAddress(match),
+        blockNumber: log.blockNumber ? BigInt(log.blockNumber) : end,
+        transactionHash: log.transactionHash,
+        factory: factories.get(`${address.toLowerCase()}:${log.transactionHash}`) ?? null
+      });
+    }
+
+    onProgress?.({ fromBlock, toBlock, scannedTo: end, found: found.size });
+  }
+
+  return Array.from(found.values());
+}
@@ -0,0 +1,337 @@
+import Safe, { type Eip1193Provider } from '@safe-global/protocol-kit';
+import { Safe4337Pack, createBundlerClient } from '@safe-global/relay-kit';
+import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
+import { createPublicClient, custom, encodeFunctionData, encodePacked, pad, type Chain, type EIP1193Provider, type PublicClient } from 'viem';
+import {
+  serializeSafeOperation, serializeSafeTransaction, restoreSafeOperation, restoreSafeTransaction,
+  type ProposalKind, type ProposalPayload, type ProposalRecord, type ProposalSignature, type SafeOperationPayload, type SafeTxPayload
+} from './proposals';
+import { registerOperation, waitForOperation, operationError, claimSettlement, type TrackedOperation } from './operations';
+import { SANDBOX_ENTRY_POINT, sandboxContractNetworks } from './sandbox';
+
+export type ExecutionConfig = {
+  chainObj: Chain;
+  bundlerUrl: string;
+  paymasterUrl: string;
+  moduleAddress: string; // Safe 4337 module
+  sandbox?: boolean; // Local fork: Safe contracts are passed explicitly and the bundler is /api/sandbox/rpc
+};
+
+type SafeContext = {
+  provider: EIP1193Provider;
+  signer: string;
+  safeAddress: string;
+  config: ExecutionConfig;
+  onStatus?: (message: string) => void;
+};
+
+export type ExecutionParams = SafeContext & {
+  is4337Enabled: boolean;
+  transactions: MetaTransactionData[];
+  description?: string; // Shown in the pending operations panel
+};
+
+// `hash` is the userOp hash on the 4337 path and the Safe tx hash on the classic path;
+// `transactionHash` is always the on-chain transaction that included it.
+export type ExecutionResult = {
+  kind: 'userOp' | 'safeTx';
+  hash: string;
+  transactionHash: string;
+};
+
+// Everything needed to persist a freshly proposed transaction together with the proposer's signature.
+export type ProposalDraft = {
+  kind: ProposalKind;
+  safeTxHash: string;
+  nonce: string;
+  payload: ProposalPayload;
+  signature: ProposalSignature;
+};
+
+const EXEC_TRANSACTION_ABI = [{
+  type: 'function',
+  name: 'execTransaction',
+  stateMutability: 'payable',
+  inputs: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'signatures', type: 'bytes' }
+  ],
+  outputs: [{ name: 'success', type: 'bool' }]
+}] as const;
+
+/**
+ * True when the wallet refused to sign (EIP-1193 code 4001 or an equivalent message).
+ */
+export const isUserRejection = (e: unknown) => {
+  const err = e as { code?: number; message?: string };
+  return err?.code === 4001 || /reject|denied/i.test(err?.message ?? '');
+};
+
+// The Safe SDKs type providers loosely; viem's EIP1193Provider is structurally the same object.
+const toSafeProvider = (provider: EIP1193Provider) => provider as unknown as Eip1193Provider;
+
+const initProtocolKit = ({ provider, signer, safeAddress, config }: SafeContext) => Safe.init({
+  provider: toSafeProvider(provider),
+  safeAddress,
+  signer,
+  ...(config.sandbox ? { contractNetworks: sandboxContractNetworks(config.chainObj.id) } : {})
+});
+
+const init4337Pack = async (context: SafeContext) => {
+  const { provider, signer, safeAddress, config } = context;
+  const paymasterOptions = { isSponsored: true as const, paymasterUrl: config.paymasterUrl };
+  if (!config.sandbox) {
+    return Safe4337Pack.init({ provider: toSafeProvider(provider), signer, bundlerUrl: config.bundlerUrl, options: { safeAddress }, paymasterOptions });
+  }
+  // Safe4337Pack.init looks the module and Safe contracts up by chain id, which the fork's id is not
+  // registered under, so the pack is assembled by hand.
+  return new Safe4337Pack({
+    protocolKit: await initProtocolKit(context),
+    bundlerClient: createBundlerClient(config.bundlerUrl),
+    bundlerUrl: config.bundlerUrl,
+    chainId: BigInt(config.chainObj.id),
+    paymasterOptions,
+    entryPointAddress: SANDBOX_ENTRY_POINT,
+    safe4337ModuleAddress: config.moduleAddress
+  });
+};
+
+const getPublicClient = ({ provider, config }: SafeContext) =>
+  createPublicClient({ chain: config.chainObj, transport: custom(provider) }) as PublicClient;
+
+// Persists the broadcast operation, then polls it to a final state. Anything short of
+// CONFIRMED (reverted, replaced, timed out) is thrown. A settled operation is claimed so
+// other tabs resuming it leave the ledger entry to the caller.
+const trackOperation = async (
+  context: SafeContext,
+  fields: Pick<TrackedOperation, 'hash' | 'kind' | 'nonce' | 'description' | 'transactions'> & Partial<Pick<TrackedOperation, 'entryPoint' | 'transactionHash' | 'proposalId'>>
+): Promise<ExecutionResult> => {
+  const { config, safeAddress, signer, onStatus } = context;
+  const publicClient = getPublicClient(context);
+  const operation = await registerOperation(publicClient, { ...fields, chainId: config.chainObj.id, safeAddress, executor: signer });
+
+  onStatus?.('Waiting for confirmation...');
+  const settled = await waitForOperation(operation, { publicClient, bundlerUrl: config.bundlerUrl });
+  if (settled.status === 'CONFIRMED' || settled.status === 'REVERTED') claimSettlement(settled.hash);
+  if (settled.status !== 'CONFIRMED' || !settled.transactionHash) throw operationError(settled);
+  return { kind: settled.kind, hash: settled.hash, transactionHash: settled.transactionHash };
+};
+
+// "Pre-validated" signature (v = 1): accepted by the Safe when msg.sender is that owner.
+const preValidatedSignature = (owner: string) =>
+  encodePacked(['bytes32', 'bytes32', 'uint8'], [pad(owner as `0x${string}`), pad('0x00'), 1]);
+
+/**
+ * Dry-runs a batch without prompting the wallet. Every call is first replayed with
+ * eth_call from the Safe itself so token-level reverts surface with their reason.
+ * Then the 4337 path has the bundler estimate the UserOperation, and the classic
+ * 1-of-N path simulates the full execTransaction from the signer. Throws on the first failure.
+ */
+export async function simulateSafeTransactions(params: ExecutionParams & { threshold: number }): Promise<void> {
+  const { signer, safeAddress, is4337Enabled, transactions, threshold, onStatus } = params;
+  const publicClient = getPublicClient(params);
+
+  onStatus?.('Simulating transfers...');
+  for (const tx of transactions) {
+    if (tx.operation === OperationType.DelegateCall) continue;
+    await publicClient.call({
+      account: safeAddress as `0x${string}`,
+      to: tx.to as `0x${string}`,
+      value: BigInt(tx.value || '0'),
+      data: (tx.data || '0x') as `0x${string}`
+    });
+  }
+
+  if (is4337Enabled) {
+    // createTransaction runs eth_estimateUserOperationGas and paymaster sponsorship.
+    onStatus?.('Estimating UserOperation...');
+    const safe4337Pack = await init4337Pack(params);
+    await safe4337Pack.createTransaction({ transactions });
+    return;
+  }
+
+  if (threshold > 1) return; // Other owners' signatures don't exist yet; the inner calls are all we can check.
+
+  onStatus?.('Simulating execTransaction...');
+  const protocolKit = await initProtocolKit(params);
+  const { data: tx } = await protocolKit.createTransaction({ transactions });
+  await publicClient.call({
+    account: signer as `0x${string}`,
+    to: safeAddress as `0x${string}`,
+    data: encodeFunctionData({
+      abi: EXEC_TRANSACTION_ABI,
+      functionName: 'execTransaction',
+      args: [
+        tx.to as `0x${string}`, BigInt(tx.value), tx.data as `0x${string}`, tx.operation,
+        BigInt(tx.safeTxGas), BigInt(tx.baseGas), BigInt(tx.gasPrice),
+        tx.gasToken as `0x${string}`, tx.refundReceiver as `0x${string}`, preValidatedSignature(signer)
+      ]
+    })
+  });
+}
+
+/**
+ * Signs and executes a batch of MetaTransactionData from a Safe, picking the gasless
+ * Safe4337Pack path when the module is enabled and the Protocol Kit path otherwise.
+ * Resolves once the batch is included on-chain.
+ */
+export async function executeSafeTransactions(params: ExecutionParams): Promise<ExecutionResult> {
+  const { is4337Enabled, transactions, description = 'Safe transaction', onStatus } = params;
+
+  if (is4337Enabled) {
+    // --- GASLESS PATH (Relay Kit) ---
+    onStatus?.('Signing UserOperation...');
+
+    const safe4337Pack = await init4337Pack(params);
+    const safeOperation = await safe4337Pack.createTransaction({ transactions });
+    const signedSafeOperation = await safe4337Pack.signSafeOperation(safeOperation);
+
+    onStatus?.('Broadcasting...');
+    const userOpHash = await safe4337Pack.executeTransaction({ executable: signedSafeOperation });
+    return trackOperation(params, {
+      hash: userOpHash,
+      kind: 'userOp',
+      nonce: signedSafeOperation.getUserOperation().nonce,
+      entryPoint: signedSafeOperation.options.entryPoint,
+      description,
+      transactions
+    });
+  }
+
+  // --- STANDARD PATH (Protocol Kit) ---
+  onStatus?.('Wallet Signature Required...');
+
+  const protocolKit = await initProtocolKit(params);
+  const safeTransaction = await protocolKit.createTransaction({ transactions });
+  const signedSafeTx = await protocolKit.signTransaction(safeTransaction);
+  const safeTxHash = await protocolKit.getTransactionHash(signedSafeTx);
+
+  onStatus?.('Executing...');
+  const { hash } = await protocolKit.executeTransaction(signedSafeTx);
+  return trackOperation(params, {
+    hash: safeTxHash,
+    kind: 'safeTx',
+    nonce: signedSafeTx.data.nonce.toString(),
+    transactionHash: hash,
+    description,
+    transactions
+  });
+}
+
+/**
+ * Builds and signs a batch without executing it, for Safes whose threshold needs
+ * more than one owner. The result is stored server-side for the other owners.
+ */
+export async function proposeSafeTransactions(params: ExecutionParams): Promise<ProposalDraft> {
+  const { signer, is4337Enabled, transactions, onStatus } = params;
+  onStatus?.('Signing proposal...');
+
+  if (is4337Enabled) {
+    const safe4337Pack = await init4337Pack(params);
+    const safeOperation = await safe4337Pack.createTransaction({ transactions });
+    const signedSafeOperation = await safe4337Pack.signSafeOperation(safeOperation);
+    const signature = signedSafeOperation.getSignature(signer);
+    if (!signature) throw new Error('Signer did not produce a signature');
+    return {
+      kind: 'SAFE_OPERATION',
+      safeTxHash: signedSafeOperation.getHash(),
+      nonce: signedSafeOperation.getUserOperation().nonce,
+      payload: serializeSafeOperation(signedSafeOperation, transactions),
+      signature: { signer: signature.signer, data: signature.data }
+    };
+  }
+
+  const protocolKit = await initProtocolKit(params);
+  const safeTransaction = await protocolKit.createTransaction({ transactions });
+  const signedSafeTx = await protocolKit.signTransaction(safeTransaction);
+  const signature = signedSafeTx.getSignature(signer);
+  if (!signature) throw new Error('Signer did not produce a signature');
+  return {
+    kind: 'SAFE_TX',
+    safeTxHash: await protocolKit.getTransactionHash(signedSafeTx),
+    nonce: signedSafeTx.data.nonce.toString(),
+    payload: serializeSafeTransaction(signedSafeTx, transactions),
+    signature: { signer: signature.signer, data: signature.data }
+  };
+}
+
+/**
+ * Builds a classic SafeTx for a batch without asking the wallet for anything, so owners can sign
+ * it elsewhere. Always the execTransaction path: a SafeOperation cannot be signed offline once
+ * its gas fields go stale, while a SafeTx stays valid until its nonce is used.
+ */
+export async function createOfflineSafeTransaction(params: ExecutionParams): Promise<Omit<ProposalDraft, 'signature'>> {
+  const { transactions, onStatus } = params;
+  onStatus?.('Building Safe transaction...');
+
+  const protocolKit = await initProtocolKit(params);
+  const safeTransaction = await protocolKit.createTransaction({ transactions });
+  return {
+    kind: 'SAFE_TX',
+    safeTxHash: await protocolKit.getTransactionHash(safeTransaction),
+    nonce: safeTransaction.data.nonce.toString(),
+    payload: serializeSafeTransaction(safeTransaction, transactions)
+  };
+}
+
+/**
+ * Adds the connected owner's signature to an existing proposal.
+ */
+export async function signProposal(params: SafeContext & { proposal: ProposalRecord }): Promise<ProposalSignature> {
+  const { proposal, signer, onStatus } = params;
+  onStatus?.('Wallet Signature Required...');
+
+  const signed = proposal.kind === 'SAFE_OPERATION'
+    ? await (await init4337Pack(params)).signSafeOperation(restoreSafeOperation(proposal.payload as SafeOperationPayload))
+    : await (await initProtocolKit(params)).signTransaction(restoreSafeTransaction(proposal.payload as SafeTxPayload));
+
+  const signature = signed.getSignature(signer);
+  if (!signature) throw new Error('Signer did not produce a signature');
+  return { signer: signature.signer, data: signature.data };
+}
+
+/**
+ * Executes a proposal once enough owners have signed it.
+ */
+export async function executeProposal(params: SafeContext & { proposal: ProposalRecord }): Promise<ExecutionResult> {
+  const { proposal, onStatus } = params;
+  const description = proposal.description ?? 'Multi-signature proposal';
+  const transactions = proposal.payload.transactions ?? [];
+
+  if (proposal.kind === 'SAFE_OPERATION') {
+    const safe4337Pack = await init4337Pack(params);
+    onStatus?.('Broadcasting...');
+    const executable = restoreSafeOperation(proposal.payload as SafeOperationPayload, proposal.signatures);
+    const userOpHash = await safe4337Pack.executeTransaction({ executable });
+    return trackOperation(params, {
+      hash: userOpHash,
+      kind: 'userOp',
+      nonce: proposal.nonce,
+      entryPoint: executable.options.entryPoint,
+      description,
+      transactions,
+      proposalId: proposal.id
+    });
+  }
+
+  const protocolKit = await initProtocolKit(params);
+  onStatus?.('Executing...');
+  const { hash } = await protocolKit.executeTransaction(restoreSafeTransaction(proposal.payload as SafeTxPayload, proposal.signatures));
+  return trackOperation(params, {
+    hash: proposal.safeTxHash,
+    kind: 'safeTx',
+    nonce: proposal.nonce,
+    transactionHash: hash,
+    description,
+    transactions,
+    proposalId: proposal.id
+  });
+}
@@ -0,0 +1,161 @@
+import { erc20Abi, getAddress, type PublicClient } from 'viem';
+
+// Canonical Multicall3 deployment, same address on every EVM chain.
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Safes per multicall round trip. Each Safe costs SAFE_CALLS calls (+1 with a token).
+const DEFAULT_CHUNK_SIZE = 100;
+const SAFE_CALLS = 4;
+const SENTINEL_MODULES = '0x0000000000000000000000000000000000000001';
+const MAX_MODULES = 100;
+
+const SAFE_ABI = [
+  { type: 'function', name: 'getOwners', stateMutability: 'view', inputs: [], outputs: [{ type: 'address[]' }] },
+  { type: 'function', name: 'getThreshold', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'VERSION', stateMutability: 'view', inputs: [], outputs: [{ type: 'string' }] },
+  {
+    type: 'function',
+    name: 'getModulesPaginated',
+    stateMutability: 'view',
+    inputs: [{ name: 'start', type: 'address' }, { name: 'pageSize', type: 'uint256' }],
+    outputs: [{ name: 'array', type: 'address[]' }, { name: 'next', type: 'address' }]
+  }
+] as const;
+
+export type SafeScanResult = {
+  address: string; // Checksummed
+  isSafe: boolean; // false when the Safe getters revert (EOA, other contract, wrong chain)
+  owners: string[];
+  threshold: number;
+  version: string;
+  modules: string[];
+  tokenBalance: bigint | null; // null when no token was requested or the call failed
+};
+
+export type TokenBalanceResult = {
+  address: string;
+  raw: bigint;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+// Reads owners, threshold, version, modules and (optionally) one ERC20 balance
+// for every address, batching `chunkSize` Safes into a single Multicall3 call.
+export const scanSafes = async (
+  publicClient: PublicClient,
+  addresses: string[],
+  options: { tokenAddress?: string; chunkSize?: number } = {}
+): Promise<SafeScanResult[]> => {
+  const { tokenAddress, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  const callsPerSafe = tokenAddress ? SAFE_CALLS + 1 : SAFE_CALLS;
+  const results: SafeScanResult[] = [];
+
+  for (const batch of chunk(addresses.map(a => getAddress(a)), chunkSize)) {
+    const contracts = batch.flatMap(address => [
+      { address, abi: SAFE_ABI, functionName: 'getOwners' },
+      { address, abi: SAFE_ABI, functionName: 'getThreshold' },
+      { address, abi: SAFE_ABI, functionName: 'VERSION' },
+      { address, abi: SAFE_ABI, functionName: 'getModulesPaginated', args: [SENTINEL_MODULES, BigInt(MAX_MODULES)] },
+      ...(tokenAddress ? [{ address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: 'balanceOf', args: [address] }] : [])
+    ] as const);
+
+    const responses = await publicClient.multicall({
+      contracts,
+      allowFailure: true,
+      batchSize: 0, // Chunking is done above; never let viem split a batch further
+      multicallAddress: MULTICALL3_ADDRESS
+    });
+
+    batch.forEach((address, index) => {
+      const [owners, threshold, version, modules, balance] = responses.slice(index * callsPerSafe, (index + 1) * callsPerSafe);
+      const isSafe = owners.status === 'success' && threshold.status === 'success';
+      results.push({
+        address,
+        isSafe,
+        owners: isSafe ? (owners.result as string[]) : [],
+        threshold: isSafe ? Number(threshold.result) : 0,
+        version: version.status === 'success' ? (version.result as string) : '',
+        modules: modules.status === 'success' ? [...(modules.result as readonly [readonly string[], string])[0]] : [],
+        tokenBalance: balance?.status === 'success' ? (balance.result as bigint) : null
+      });
+    });
+  }
+
+  return results;
+};
+
+const decimalsCache = new Map<string, number>();
+
+// A token's own `decimals()`, cached per chain. Falls back to `configured` when the call fails.
+export const readTokenDecimals = async (publicClient: PublicClient, tokenAddress: string, configured: number): Promise<number> => {
+  const key = `${publicClient.chain?.id ?? 'unknown'}:${tokenAddress.toLowerCase()}`;
+  const cached = decimalsCache.get(key);
+  if (cached !== undefined) return cached;
+  try {
+    const decimals = await publicClient.readContract({ address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: 'decimals' });
+    decimalsCache.set(key, decimals);
+    return decimals;
+  } catch (e) {
+    console.warn(`[Scanner] decimals() failed for ${tokenAddress}, using ${configured}`, e);
+    return configured;
+  }
+};
+
+// Balance-only scan used by scripts/scanBalances.ts: one balanceOf per address.
+export const scanTokenBalances = async (
+  publicClient: PublicClient,
+  addresses: string[],
+  tokenAddress: string,
+  chunkSize = DEFAULT_CHUNK_SIZE * SAFE_CALLS
+): Promise<TokenBalanceResult[]> => {
+  const results: TokenBalanceResult[] = [];
+
+  for (const batch of chunk(addresses.map(a => getAddress(a)), chunkSize)) {
+    const responses = await publicClient.multicall({
+      contracts: batch.map(address => ({ address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: 'balanceOf', args: [address] } as const)),
+      allowFailure: true,
+      batchSize: 0,
+      multicallAddress: MULTICALL3_ADDRESS
+    });
+
+    batch.forEach((address, index) => {
+      const response = responses[index];
+      if (response.status === 'success') results.push({ address, raw: response.result });
+    });
+  }
+
+  return results;
+};
+
+const MULTICALL3_ETH_BALANCE_ABI = [
+  { type: 'function', name: 'getEthBalance', stateMutability: 'view', inputs: [{ name: 'addr', type: 'address' }], outputs: [{ name: 'balance', type: 'uint256' }] }
+] as const;
+
+// Native-currency counterpart of scanTokenBalances, through Multicall3's getEthBalance.
+export const scanNativeBalances = async (
+  publicClient: PublicClient,
+  addresses: string[],
+  chunkSize = DEFAULT_CHUNK_SIZE * SAFE_CALLS
+): Promise<TokenBalanceResult[]> => {
+  const results: TokenBalanceResult[] = [];
+
+  for (const batch of chunk(addresses.map(a => getAddress(a)), chunkSize)) {
+    const responses = await publicClient.multicall({
+      contracts: batch.map(address => ({ address: MULTICALL3_ADDRESS, abi: MULTICALL3_ETH_BALANCE_ABI, functionName: 'getEthBalance', args: [address] } as const)),
+      allowFailure: true,
+      batchSize: 0,
+      multicallAddress: MULTICALL3_ADDRESS
+    });
+
+    batch.forEach((address, index) => {
+      const response = responses[index];
+      if (response.status === 'success') results.push({ address, raw: response.result });
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,16 @@
+import { hashMessage, recoverAddress, type Hex } from 'viem';
+
+/**
+ * Recovers the EOA behind a Safe ECDSA signature over `hash` (a Safe tx hash or SafeOperation hash).
+ * Signatures produced through eth_sign carry `v + 4` and sign the prefixed message instead of the raw hash.
+ */
+export async function recoverSafeSignatureSigner(hash: string, signature: string): Promise<string> {
+  const sig = signature as Hex;
+  if (sig.length !== 132) throw new Error('Only 65-byte ECDSA signatures are supported');
+  const v = parseInt(sig.slice(130, 132), 16);
+  if (v > 30) {
+    const adjusted = `${sig.slice(0, 130)}${(v - 4).toString(16)}` as Hex;
+    return recoverAddress({ hash: hashMessage({ raw: hash as Hex }), signature: adjusted });
+  }
+  return recoverAddress({ hash: hash as Hex, signature: sig });
+}
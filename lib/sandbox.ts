@@ -0,0 +1,26 @@
+import type { ContractNetworksConfig } from '@safe-global/protocol-kit';
+import { entryPoint07Address } from 'viem/account-abstraction';
+
+// EntryPoint v0.7, the one the Safe 4337 module v0.3.0 (`moduleAddress`) is bound to.
+export const SANDBOX_ENTRY_POINT = entryPoint07Address;
+
+// Unlocked anvil dev account #0; submits bundles and funds sponsorships on the fork.
+export const SANDBOX_BUNDLER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+// Safe v1.4.1 canonical deployments, present on every forked network. The Safe SDKs look contracts up
+// by chain id and know nothing about the sandbox id, so they are passed in explicitly. MultiSend is
+// delegatecalled the same way by every Safe version, so 1.3.0 vaults use these as well.
+const CANONICAL_CONTRACTS = {
+  safeSingletonAddress: '0x29fcB43b46531BcA003ddC8FCB67FFE91900C762', // SafeL2
+  safeProxyFactoryAddress: '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67',
+  multiSendAddress: '0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526',
+  multiSendCallOnlyAddress: '0x9641d764fc13c8B624c04430C7356C1C7C8102e2',
+  fallbackHandlerAddress: '0xfd0732Dc9E303f09fCEf3a7388Ad10A83459Ec99',
+  signMessageLibAddress: '0xd53cd0aB83D845Ac265BE939c57F53AD838012c9',
+  createCallAddress: '0x9b35Af71d77eaf8d7e40252370304687390A1A52',
+  simulateTxAccessorAddress: '0x3d4BA2E0884aa488718476ca2FB8Efc291A46199'
+};
+
+export const sandboxContractNetworks = (chainId: number): ContractNetworksConfig => ({
+  [chainId]: CANONICAL_CONTRACTS
+});
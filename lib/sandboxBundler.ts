@@ -0,0 +1,175 @@
+import {
+  BaseError, ContractFunctionRevertedError, createTestClient, createWalletClient, http, parseEther, parseEventLogs, toHex, type Hex
+} from 'viem';
+import { entryPoint07Abi, formatUserOperation, toPackedUserOperation, type RpcUserOperation, type UserOperation } from 'viem/account-abstraction';
+import type { ChainConfig } from './chains';
+import { getReadClient } from './readClients';
+import { describeError } from './preflight';
+import { SANDBOX_BUNDLER, SANDBOX_ENTRY_POINT } from './sandbox';
+
+// Fixed gas for the parts a real bundler would simulate. Generous on purpose: the fork's ETH is free.
+const VERIFICATION_GAS_LIMIT = BigInt(500_000);
+const PRE_VERIFICATION_GAS = BigInt(100_000);
+const CALL_GAS_OVERHEAD = BigInt(50_000);
+const BUNDLER_BALANCE = parseEther('1000');
+
+// JSON-RPC error codes: ERC-7769 uses -32500 for operations rejected during validation.
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const REJECTED = -32500;
+
+export type SandboxRpcResponse = { result: unknown } | { error: { code: number; message: string } };
+
+type SentOperation = {
+  userOperation: RpcUserOperation<'0.7'>;
+  transactionHash: Hex;
+};
+
+// Sent operations by lowercased userOp hash. Kept on `global` so a dev-server reload keeps receipts.
+const globalForSandbox = global as unknown as { sandboxOperations?: Map<string, SentOperation> };
+const sentOperations = globalForSandbox.sandboxOperations ?? new Map<string, SentOperation>();
+globalForSandbox.sandboxOperations = sentOperations;
+
+const rpcError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+const clientsFor = (chain: ChainConfig) => {
+  const transport = http(chain.chainObj.rpcUrls.default.http[0]);
+  return {
+    publicClient: getReadClient(chain.id),
+    testClient: createTestClient({ mode: 'anvil', chain: chain.chainObj, transport }),
+    walletClient: createWalletClient({ account: SANDBOX_BUNDLER, chain: chain.chainObj, transport })
+  };
+};
+
+// FailedOp / FailedOpWithRevert carry the AA code ("AA24 signature error") as their second argument.
+const rejection = (error: unknown) => {
+  const reverted = error instanceof BaseError ? error.walk(e => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null : null;
+  const reason = reverted?.data?.args?.[1];
+  return rpcError(REJECTED, typeof reason === 'string' ? reason : describeError(error));
+};
+
+const readUserOperation = (params: unknown[]) => {
+  const [userOperation, entryPoint] = params as [RpcUserOperation<'0.7'> | undefined, string | undefined];
+  if (!userOperation?.sender || !userOperation.callData) throw rpcError(INVALID_PARAMS, 'Missing UserOperation');
+  if (entryPoint?.toLowerCase() !== SANDBOX_ENTRY_POINT.toLowerCase()) throw rpcError(INVALID_PARAMS, `Only EntryPoint ${SANDBOX_ENTRY_POINT} is supported`);
+  return { rpc: userOperation, userOperation: formatUserOperation(userOperation) as UserOperation<'0.7'> };
+};
+
+const gasTier = async (chain: ChainConfig) => {
+  const fees = await getReadClient(chain.id).estimateFeesPerGas();
+  return { maxFeePerGas: toHex(fees.maxFeePerGas), maxPriorityFeePerGas: toHex(fees.maxPriorityFeePerGas) };
+};
+
+const estimateUserOperationGas = async (chain: ChainConfig, params: unknown[]) => {
+  const { userOperation } = readUserOperation(params);
+  // The Safe 4337 module only executes calls coming from the EntryPoint, so estimate from there.
+  const callGas = await getReadClient(chain.id)
+    .estimateGas({ account: SANDBOX_ENTRY_POINT, to: userOperation.sender, data: userOperation.callData })
+    .catch(error => { throw rejection(error); });
+  return {
+    preVerificationGas: toHex(PRE_VERIFICATION_GAS),
+    verificationGasLimit: toHex(VERIFICATION_GAS_LIMIT),
+    callGasLimit: toHex(callGas + callGas / BigInt(5) + CALL_GAS_OVERHEAD)
+  };
+};
+
+/**
+ * Bundles one operation straight away. Sponsorship is faked by topping up the Safe's EntryPoint
+ * deposit from the bundler account, so the prefund never comes out of the vault's own balance.
+ */
+const sendUserOperation = async (chain: ChainConfig, params: unknown[]) => {
+  const { rpc, userOperation } = readUserOperation(params);
+  const { publicClient, testClient, walletClient } = clientsFor(chain);
+  const packed = toPackedUserOperation(userOperation);
+  const userOpHash = await publicClient.readContract({ address: SANDBOX_ENTRY_POINT, abi: entryPoint07Abi, functionName: 'getUserOpHash', args: [packed] });
+
+  await testClient.setBalance({ address: SANDBOX_BUNDLER, value: BUNDLER_BALANCE });
+  const gasLimits = userOperation.verificationGasLimit + userOperation.callGasLimit + userOperation.preVerificationGas
+    + (userOperation.paymasterVerificationGasLimit ?? BigInt(0)) + (userOperation.paymasterPostOpGasLimit ?? BigInt(0));
+  const required = gasLimits * userOperation.maxFeePerGas;
+  const deposit = await publicClient.readContract({ address: SANDBOX_ENTRY_POINT, abi: entryPoint07Abi, functionName: 'balanceOf', args: [userOperation.sender] });
+  if (deposit < required) {
+    const hash = await walletClient.writeContract({ address: SANDBOX_ENTRY_POINT, abi: entryPoint07Abi, functionName: 'depositTo', args: [userOperation.sender], value: required - deposit });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  // Validate the way a bundler would before spending gas on it.
+  await publicClient
+    .simulateContract({ account: SANDBOX_BUNDLER, address: SANDBOX_ENTRY_POINT, abi: entryPoint07Abi, functionName: 'handleOps', args: [[packed], SANDBOX_BUNDLER] })
+    .catch(error => { throw rejection(error); });
+  const transactionHash = await walletClient.writeContract({ address: SANDBOX_ENTRY_POINT, abi: entryPoint07Abi, functionName: 'handleOps', args: [[packed], SANDBOX_BUNDLER] });
+  await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+
+  sentOperations.set(userOpHash.toLowerCase(), { userOperation: rpc, transactionHash });
+  return userOpHash;
+};
+
+const getUserOperationReceipt = async (chain: ChainConfig, [hash]: unknown[]) => {
+  const sent = typeof hash === 'string' ? sentOperations.get(hash.toLowerCase()) : undefined;
+  if (!sent) return null;
+  const receipt = await getReadClient(chain.id).getTransactionReceipt({ hash: sent.transactionHash });
+  const event = parseEventLogs({ abi: entryPoint07Abi, eventName: 'UserOperationEvent', logs: receipt.logs })
+    .find(log => log.args.userOpHash.toLowerCase() === (hash as string).toLowerCase());
+  return {
+    userOpHash: hash,
+    entryPoint: SANDBOX_ENTRY_POINT,
+    sender: sent.userOperation.sender,
+    nonce: sent.userOperation.nonce,
+    success: event?.args.success ?? false,
+    actualGasCost: toHex(event?.args.actualGasCost ?? BigInt(0)),
+    actualGasUsed: toHex(event?.args.actualGasUsed ?? BigInt(0)),
+    logs: [],
+    receipt: {
+      transactionHash: receipt.transactionHash,
+      blockHash: receipt.blockHash,
+      blockNumber: toHex(receipt.blockNumber),
+      status: receipt.status === 'success' ? '0x1' : '0x0'
+    }
+  };
+};
+
+const getUserOperationByHash = async (chain: ChainConfig, [hash]: unknown[]) => {
+  const sent = typeof hash === 'string' ? sentOperations.get(hash.toLowerCase()) : undefined;
+  if (!sent) return null;
+  const receipt = await getReadClient(chain.id).getTransactionReceipt({ hash: sent.transactionHash });
+  return {
+    userOperation: sent.userOperation,
+    entryPoint: SANDBOX_ENTRY_POINT,
+    transactionHash: sent.transactionHash,
+    blockHash: receipt.blockHash,
+    blockNumber: toHex(receipt.blockNumber)
+  };
+};
+
+// The bundler and paymaster methods Safe4337Pack (Pimlico flavour) and lib/operations.ts call.
+// Paymaster calls add nothing: the deposit top-up in eth_sendUserOperation stands in for sponsorship.
+const METHODS: Record<string, (chain: ChainConfig, params: unknown[]) => Promise<unknown>> = {
+  eth_chainId: async (chain) => toHex(chain.id),
+  eth_supportedEntryPoints: async () => [SANDBOX_ENTRY_POINT],
+  eth_estimateUserOperationGas: estimateUserOperationGas,
+  eth_sendUserOperation: sendUserOperation,
+  eth_getUserOperationReceipt: getUserOperationReceipt,
+  eth_getUserOperationByHash: getUserOperationByHash,
+  pimlico_getUserOperationGasPrice: async (chain) => {
+    const tier = await gasTier(chain);
+    return { slow: tier, standard: tier, fast: tier };
+  },
+  pm_getPaymasterStubData: async () => ({}),
+  pm_getPaymasterData: async () => ({}),
+  pm_sponsorUserOperation: async () => ({})
+};
+
+/**
+ * Answers one JSON-RPC call for the local bundler / paymaster stand-in on the sandbox `chain`.
+ */
+export async function handleSandboxRpc(chain: ChainConfig, method: string, params: unknown[]): Promise<SandboxRpcResponse> {
+  const handler = METHODS[method];
+  if (!handler) return { error: { code: -32601, message: `Method ${method} is not supported by the sandbox bundler` } };
+  try {
+    return { result: await handler(chain, params) };
+  } catch (e) {
+    const code = typeof (e as { code?: unknown }).code === 'number' ? (e as { code: number }).code : INTERNAL_ERROR;
+    console.error(`[Sandbox] ${method} failed`, e);
+    return { error: { code, message: code === INTERNAL_ERROR ? describeError(e) : (e as Error).message } };
+  }
+}
@@ -0,0 +1,33 @@
+import { prisma } from './prisma';
+import { DEFAULT_SETTINGS, type AppSettings } from './addressBook';
+import { hasRole, type Role } from './roles';
+
+/**
+ * Team settings with defaults filled in for keys that were never saved. Server-side only.
+ */
+export async function loadSettings(): Promise<AppSettings> {
+  const rows = await prisma.setting.findMany();
+  const saved = Object.fromEntries(rows.map(row => [row.key, row.value]));
+  return {
+    enforceAddressBook: typeof saved.enforceAddressBook === 'boolean' ? saved.enforceAddressBook : DEFAULT_SETTINGS.enforceAddressBook,
+    disabledChains: Array.isArray(saved.disabledChains) ? saved.disabledChains.filter((id): id is number => Number.isInteger(id)) : DEFAULT_SETTINGS.disabledChains
+  };
+}
+
+/**
+ * Wallets from the comma-separated ADMIN_WALLETS env var get the ADMIN role on their first sign-in
+ * (or while no admin exists), so a fresh deployment has someone who can hand out roles.
+ */
+export const isBootstrapAdmin = (address: string | undefined | null) => {
+  if (!address) return false;
+  const admins = (process.env.ADMIN_WALLETS ?? '').split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+  return admins.includes(address.toLowerCase());
+};
+
+/**
+ * While the allow-list is enforced only admins may change it; otherwise any operator can.
+ */
+export async function canEditAddressBook(role: Role) {
+  const { enforceAddressBook } = await loadSettings();
+  return hasRole(role, enforceAddressBook ? 'ADMIN' : 'OPERATOR');
+}
@@ -0,0 +1,63 @@
+import { encodeFunctionData, type PublicClient } from 'viem';
+import { MetaTransactionData, OperationType } from '@safe-global/types-kit';
+
+const ERC20_ABI = [
+  { type: 'function', name: 'balanceOf', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }], outputs: [{ type: 'uint256' }] },
+  { type: 'function', name: 'transfer', stateMutability: 'nonpayable', inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], outputs: [{ type: 'bool' }] }
+] as const;
+
+export type TokenConfig = {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+};
+
+// `address` is null for the chain's native currency.
+export type AssetBalance = {
+  symbol: string;
+  address: `0x${string}` | null;
+  decimals: number;
+  raw: bigint;
+};
+
+export const NATIVE_DECIMALS = 18;
+
+/**
+ * Reads the native balance plus every configured token balance of a Safe and
+ * returns only the assets that are actually holding something.
+ */
+export async function discoverBalances(publicClient: PublicClient, safeAddress: string, tokens: TokenConfig[], nativeSymbol = 'ETH'): Promise<AssetBalance[]> {
+  const account = safeAddress as `0x${string}`;
+  const [nativeRaw, ...tokenRaws] = await Promise.all([
+    publicClient.getBalance({ address: account }),
+    ...tokens.map(t => publicClient.readContract({ address: t.address, abi: ERC20_ABI, functionName: 'balanceOf', args: [account] }))
+  ]);
+
+  const balances: AssetBalance[] = [
+    { symbol: nativeSymbol, address: null, decimals: NATIVE_DECIMALS, raw: nativeRaw },
+    ...tokens.map((t, i) => ({ symbol: t.symbol, address: t.address, decimals: t.decimals, raw: tokenRaws[i] }))
+  ];
+  return balances.filter(b => b.raw > BigInt(0));
+}
+
+/**
+ * Builds one MetaTransactionData per asset, moving the full balance to `destination`.
+ * Token transfers come first and the native transfer last, so the batch never
+ * depends on ETH that has already left the Safe.
+ */
+export function buildSweepTransactions(balances: AssetBalance[], destination: string): MetaTransactionData[] {
+  const to = destination as `0x${string}`;
+  const tokenTxs = balances.filter(b => b.address !== null).map(b => ({
+    to: b.address as string,
+    value: '0',
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [to, b.raw] }),
+    operation: OperationType.Call,
+  }));
+  const nativeTxs = balances.filter(b => b.address === null).map(b => ({
+    to,
+    value: b.raw.toString(),
+    data: '0x',
+    operation: OperationType.Call,
+  }));
+  return [...tokenTxs, ...nativeTxs];
+}
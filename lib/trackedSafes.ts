@@ -0,0 +1,10 @@
+// Shape returned by the /api/safes routes. `address` is stored lowercased.
+export type TrackedSafeRecord = {
+  id: string;
+  chainId: number;
+  address: string;
+  label: string | null;
+  notes: string | null;
+  createdAt: string;
+  addedBy: { walletAddress: string; email: string | null; name: string | null } | null;
+};
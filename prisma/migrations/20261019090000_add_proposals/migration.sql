@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ProposalKind" AS ENUM ('SAFE_TX', 'SAFE_OPERATION');
+
+-- CreateEnum
+CREATE TYPE "ProposalStatus" AS ENUM ('PENDING', 'EXECUTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "Proposal" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "safeAddress" TEXT NOT NULL,
+    "kind" "ProposalKind" NOT NULL,
+    "safeTxHash" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "description" TEXT,
+    "status" "ProposalStatus" NOT NULL DEFAULT 'PENDING',
+    "proposer" TEXT NOT NULL,
+    "executedHash" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Proposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProposalSignature" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "signer" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProposalSignature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Proposal_chainId_safeAddress_status_idx" ON "Proposal"("chainId", "safeAddress", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Proposal_chainId_safeTxHash_key" ON "Proposal"("chainId", "safeTxHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProposalSignature_proposalId_signer_key" ON "ProposalSignature"("proposalId", "signer");
+
+-- AddForeignKey
+ALTER TABLE "ProposalSignature" ADD CONSTRAINT "ProposalSignature_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "Proposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "RecoveryStatus" AS ENUM ('PENDING', 'CONFIRMED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "Recovery" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "safeAddress" TEXT NOT NULL,
+    "tokenAddress" TEXT,
+    "tokenSymbol" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "decimals" INTEGER NOT NULL,
+    "destination" TEXT NOT NULL,
+    "txHash" TEXT,
+    "userOpHash" TEXT,
+    "safeTxHash" TEXT,
+    "status" "RecoveryStatus" NOT NULL DEFAULT 'PENDING',
+    "executorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Recovery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Recovery_chainId_safeAddress_idx" ON "Recovery"("chainId", "safeAddress");
+
+-- CreateIndex
+CREATE INDEX "Recovery_executorId_idx" ON "Recovery"("executorId");
+
+-- AddForeignKey
+ALTER TABLE "Recovery" ADD CONSTRAINT "Recovery_executorId_fkey" FOREIGN KEY ("executorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
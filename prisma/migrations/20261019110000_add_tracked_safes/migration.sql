@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TrackedSafe" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT,
+    "notes" TEXT,
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TrackedSafe_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackedSafe_chainId_address_key" ON "TrackedSafe"("chainId", "address");
+
+-- AddForeignKey
+ALTER TABLE "TrackedSafe" ADD CONSTRAINT "TrackedSafe_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the vaults that used to be hard-coded as DEFAULT_SAFES on Base Mainnet
+INSERT INTO "TrackedSafe" ("id", "chainId", "address", "updatedAt") VALUES
+    ('default_safe_1', 8453, '0xeab30a69ac1384e7b88b6210e1ea9cac50faeb6e', CURRENT_TIMESTAMP),
+    ('default_safe_2', 8453, '0xc8ec161985773bcc8ba4548325c1afc6e7133983', CURRENT_TIMESTAMP),
+    ('default_safe_3', 8453, '0x2ec614ea50185011f05fa872e8f533b990bd0967', CURRENT_TIMESTAMP),
+    ('default_safe_4', 8453, '0xc219cc527520d4336ff0d8b06f6628f7cc30c67e', CURRENT_TIMESTAMP),
+    ('default_safe_5', 8453, '0xe3f7c935a90542e92fef0f335bc451a3f3af8655', CURRENT_TIMESTAMP),
+    ('default_safe_6', 8453, '0x53ae2424adc0f3b576c5e968e2f20803cff71cc6', CURRENT_TIMESTAMP),
+    ('default_safe_7', 8453, '0x308a3405a5061d0369cb9eaeb37cd946f75b3e37', CURRENT_TIMESTAMP),
+    ('default_safe_8', 8453, '0xcd3aa4ed72089da7c7af02163dbd370f6e922ebf', CURRENT_TIMESTAMP)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "AddressBookEntry" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AddressBookEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Setting" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Setting_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddressBookEntry_chainId_address_key" ON "AddressBookEntry"("chainId", "address");
+
+-- AddForeignKey
+ALTER TABLE "AddressBookEntry" ADD CONSTRAINT "AddressBookEntry_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('ADMIN', 'OPERATOR', 'VIEWER');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'VIEWER';
+
+-- Users who signed in before roles existed could already move funds; keep them as operators.
+UPDATE "User" SET "role" = 'OPERATOR';
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "LinkedWallet" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "address" TEXT,
+    "walletClient" TEXT,
+    "detail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LinkedWallet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SignerLabel" (
+    "id" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SignerLabel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LinkedWallet_address_key" ON "LinkedWallet"("address");
+
+-- CreateIndex
+CREATE INDEX "LinkedWallet_userId_idx" ON "LinkedWallet"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SignerLabel_address_key" ON "SignerLabel"("address");
+
+-- AddForeignKey
+ALTER TABLE "LinkedWallet" ADD CONSTRAINT "LinkedWallet_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SignerLabel" ADD CONSTRAINT "SignerLabel_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Recovery" ADD COLUMN     "notifiedAt" TIMESTAMP(3);
+
+-- Recoveries recorded before the monitor existed are not announced again.
+UPDATE "Recovery" SET "notifiedAt" = "updatedAt" WHERE "status" = 'CONFIRMED';
+
+-- CreateTable
+CREATE TABLE "BalanceSnapshot" (
+    "id" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "safeAddress" TEXT NOT NULL,
+    "tokenAddress" TEXT,
+    "tokenSymbol" TEXT NOT NULL,
+    "decimals" INTEGER NOT NULL,
+    "amount" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BalanceSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BalanceSnapshot_chainId_safeAddress_createdAt_idx" ON "BalanceSnapshot"("chainId", "safeAddress", "createdAt");
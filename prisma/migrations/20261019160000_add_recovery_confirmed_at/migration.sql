@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Recovery" ADD COLUMN     "confirmedAt" TIMESTAMP(3);
+
+-- Ledger entries are written once their operation has landed, so creation is the best record of when that was.
+UPDATE "Recovery" SET "confirmedAt" = "createdAt" WHERE "status" = 'CONFIRMED';
@@ -0,0 +1,69 @@
+// Filters a list of addresses down to those holding a non-zero token balance.
+//
+//   npm run scan -- addresses.txt --out nonzero_usdc.csv
+//   npm run scan -- addresses.txt --chain 84532 --rpc https://sepolia.base.org
+//
+// Options: --chain <id> (default: defaultChainId in config/chains.json), --rpc <url>
+// (default $BASE_RPC_URL or the chain's public RPC), --token <address> (default USDC), --chunk <n>, --out <file.csv>.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createPublicClient, erc20Abi, formatUnits, http, type PublicClient } from 'viem';
+import { parseAddressList } from '../lib/addressImport';
+import { scanTokenBalances } from '../lib/safeScanner';
+import { toCsv } from '../lib/csv';
+import { CHAIN_REGISTRY, DEFAULT_CHAIN_ID } from '../lib/chains';
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) flags[argv[i].slice(2)] = argv[++i] ?? '';
+    else positional.push(argv[i]);
+  }
+  return { file: positional[0], flags };
+};
+
+const main = async () => {
+  const { file, flags } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: npm run scan -- <addresses.txt|.csv> [--chain <id>] [--rpc url] [--token 0x...] [--chunk 400] [--out file.csv]');
+    process.exit(1);
+  }
+
+  const chainId = Number(flags.chain ?? DEFAULT_CHAIN_ID);
+  const target = CHAIN_REGISTRY[chainId];
+  if (!target) {
+    console.error(`ERROR: Unsupported chain ${chainId}. Known: ${Object.keys(CHAIN_REGISTRY).join(', ')}`);
+    process.exit(1);
+  }
+
+  const rpcUrl = flags.rpc || process.env.BASE_RPC_URL || target.chainObj.rpcUrls.default.http[0];
+  // Exponential backoff on RPC errors helps with public endpoint rate limits.
+  const publicClient = createPublicClient({
+    chain: target.chainObj,
+    transport: http(rpcUrl, { retryCount: 6, retryDelay: 400, timeout: 30_000 })
+  }) as PublicClient;
+
+  const { valid, invalid } = parseAddressList(readFileSync(file, 'utf-8'));
+  if (invalid.length > 0) console.error(`Warning: skipped ${invalid.length} invalid address(es).`);
+
+  const tokenAddress = (flags.token || target.usdcAddress) as `0x${string}`;
+  const [decimals, symbol] = await Promise.all([
+    publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'decimals' }),
+    publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'symbol' }).catch(() => 'USDC')
+  ]);
+
+  const balances = await scanTokenBalances(publicClient, valid, tokenAddress, flags.chunk ? Number(flags.chunk) : undefined);
+  const nonzero = balances.filter(b => b.raw > BigInt(0)).map(b => [b.address, b.raw.toString(), formatUnits(b.raw, decimals), symbol]);
+
+  for (const [address, , human, tokenSymbol] of nonzero) console.log(`${address},${human} ${tokenSymbol}`);
+
+  if (flags.out) {
+    writeFileSync(flags.out, toCsv(['address', 'usdc_raw', 'usdc', 'symbol'], nonzero));
+    console.error(`Wrote ${nonzero.length} row(s) to ${flags.out}`);
+  }
+};
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});